@@ -0,0 +1,139 @@
+import type { AlertDirection, AlertMode, AlertType, PriceAlert } from './alerts';
+
+export interface AlertPopoverHandlers {
+  onSave: (alert: PriceAlert) => void;
+  onDelete: (alertId: string) => void;
+}
+
+const popoverEl = document.getElementById('alert-popover') as HTMLFormElement;
+const typeSelect = document.getElementById('alert-type') as HTMLSelectElement;
+const directionSelect = document.getElementById('alert-direction') as HTMLSelectElement;
+const priceLabel = document.getElementById('alert-price-label') as HTMLLabelElement;
+const priceInput = document.getElementById('alert-price') as HTMLInputElement;
+const upperRow = document.getElementById('alert-upper-row') as HTMLDivElement;
+const upperInput = document.getElementById('alert-upper') as HTMLInputElement;
+const percentRow = document.getElementById('alert-percent-row') as HTMLDivElement;
+const percentInput = document.getElementById('alert-percent') as HTMLInputElement;
+const modeSelect = document.getElementById('alert-mode') as HTMLSelectElement;
+const cooldownInput = document.getElementById('alert-cooldown') as HTMLInputElement;
+const expiresInput = document.getElementById('alert-expires') as HTMLInputElement;
+const noteInput = document.getElementById('alert-note') as HTMLInputElement;
+const enabledInput = document.getElementById('alert-enabled') as HTMLInputElement;
+const deleteBtn = document.getElementById('alert-delete') as HTMLButtonElement;
+
+const PRICE_LABELS: Record<AlertType, string> = {
+  price: 'Level',
+  percent: 'From',
+  channel: 'Lower',
+};
+
+let editing: PriceAlert | null = null;
+let handlers: AlertPopoverHandlers | null = null;
+
+// datetime-local works in local wall time without a zone
+function toLocalInputValue(epoch: number): string {
+  const offsetMs = new Date(epoch).getTimezoneOffset() * 60_000;
+  return new Date(epoch - offsetMs).toISOString().slice(0, 16);
+}
+
+function updateFieldVisibility() {
+  const type = typeSelect.value as AlertType;
+  priceLabel.textContent = PRICE_LABELS[type];
+  upperRow.style.display = type === 'channel' ? 'flex' : 'none';
+  percentRow.style.display = type === 'percent' ? 'flex' : 'none';
+  cooldownInput.style.display = modeSelect.value === 'repeat' ? 'block' : 'none';
+}
+
+typeSelect.addEventListener('change', updateFieldVisibility);
+modeSelect.addEventListener('change', updateFieldVisibility);
+
+// Keep clicks and key presses inside the popover from reaching the chart/shortcuts
+popoverEl.addEventListener('click', (e) => e.stopPropagation());
+popoverEl.addEventListener('mousedown', (e) => e.stopPropagation());
+popoverEl.addEventListener('keydown', (e) => {
+  e.stopPropagation();
+  if (e.key === 'Escape') closeAlertPopover();
+});
+
+popoverEl.addEventListener('submit', (e) => {
+  e.preventDefault();
+  if (!editing || !handlers) return;
+
+  const price = parseFloat(priceInput.value);
+  if (!Number.isFinite(price)) {
+    priceInput.focus();
+    return;
+  }
+
+  const type = typeSelect.value as AlertType;
+  const upper = parseFloat(upperInput.value);
+  const percent = parseFloat(percentInput.value);
+  const expiresAt = expiresInput.value ? new Date(expiresInput.value).getTime() : undefined;
+
+  const updated: PriceAlert = {
+    ...editing,
+    type,
+    price: type === 'channel' && Number.isFinite(upper) ? Math.min(price, upper) : price,
+    upper: type === 'channel' && Number.isFinite(upper) ? Math.max(price, upper) : undefined,
+    percent: type === 'percent' && Number.isFinite(percent) ? Math.abs(percent) : undefined,
+    direction: directionSelect.value as AlertDirection,
+    mode: modeSelect.value as AlertMode,
+    cooldownMinutes: Math.max(1, parseInt(cooldownInput.value) || editing.cooldownMinutes),
+    expiresAt,
+    note: noteInput.value.trim() || undefined,
+    enabled: enabledInput.checked,
+  };
+  // Re-enabling (or editing) an alert arms it again straight away
+  if (updated.enabled && !editing.enabled) {
+    updated.lastTriggeredAt = undefined;
+  }
+
+  const { onSave } = handlers;
+  closeAlertPopover();
+  onSave(updated);
+});
+
+deleteBtn.addEventListener('click', () => {
+  if (!editing || !handlers) return;
+  const { onDelete } = handlers;
+  const id = editing.id;
+  closeAlertPopover();
+  onDelete(id);
+});
+
+export function isAlertPopoverOpen(): boolean {
+  return popoverEl.classList.contains('open');
+}
+
+// Opens the editor near (x, y), given in widget-relative pixels
+export function openAlertPopover(alert: PriceAlert, x: number, y: number, callbacks: AlertPopoverHandlers) {
+  editing = alert;
+  handlers = callbacks;
+
+  typeSelect.value = alert.type;
+  directionSelect.value = alert.direction;
+  priceInput.value = String(alert.price);
+  upperInput.value = alert.upper !== undefined ? String(alert.upper) : '';
+  percentInput.value = alert.percent !== undefined ? String(alert.percent) : '';
+  modeSelect.value = alert.mode;
+  cooldownInput.value = String(alert.cooldownMinutes);
+  expiresInput.value = alert.expiresAt !== undefined ? toLocalInputValue(alert.expiresAt) : '';
+  noteInput.value = alert.note ?? '';
+  enabledInput.checked = alert.enabled;
+  updateFieldVisibility();
+
+  popoverEl.classList.add('open');
+
+  // Keep the popover inside the widget
+  const parent = popoverEl.offsetParent as HTMLElement | null;
+  const maxLeft = (parent?.clientWidth ?? window.innerWidth) - popoverEl.offsetWidth - 8;
+  const maxTop = (parent?.clientHeight ?? window.innerHeight) - popoverEl.offsetHeight - 8;
+  popoverEl.style.left = `${Math.max(8, Math.min(x, maxLeft))}px`;
+  popoverEl.style.top = `${Math.max(8, Math.min(y, maxTop))}px`;
+}
+
+export function closeAlertPopover() {
+  popoverEl.classList.remove('open');
+  editing = null;
+  handlers = null;
+}
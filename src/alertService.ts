@@ -0,0 +1,272 @@
+import { Notification, powerMonitor } from 'electron';
+import fs from 'node:fs';
+import {
+  describeAlert,
+  evaluateAlert,
+  isAlertArmed,
+  normalizeAlerts,
+  type AlertTrigger,
+  type PriceAlert,
+} from './alerts';
+import { getActiveApiKey } from './keyStore';
+import { createPriceFormat, loadInstrumentInfo, resolveInstrumentInfo, type PriceFormat } from './priceFormat';
+import { fetchProviderData, fetchReferenceData } from './providerProxy';
+import {
+  DEFAULT_PROVIDER,
+  getProvider,
+  type Bar,
+  type InstrumentInfo,
+  type MarketDataProvider,
+  type ProviderContext,
+} from './providers';
+import { getIntervalMs } from './time';
+
+// The parts of the settings file the alert service reads
+interface AlertSettings {
+  providers?: Record<string, string>;
+  instrumentInfo?: Record<string, InstrumentInfo>;
+  refreshInterval: number;
+  alerts?: Record<string, PriceAlert[]>;
+}
+
+interface AlertServiceOptions {
+  loadSettings: () => AlertSettings;
+  // Persist alerts that changed state (triggered, or one-shots disarmed)
+  saveAlerts: (instrument: string, updated: PriceAlert[]) => void;
+}
+
+// The last bar evaluated for an instrument; a later poll only checks price beyond it
+interface WatchState {
+  interval: string;
+  time: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// Finest bars first; a longer gap (sleep, offline) falls back to coarser ones to cover it
+const CATCH_UP_INTERVALS = ['1min', '1h', '1day'];
+const MAX_BARS = 1000;
+const MIN_POLL_SECONDS = 60;
+
+const watchStates = new Map<string, WatchState>();
+let options: AlertServiceOptions | null = null;
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let checking = false;
+
+// Alert checks share the API budget with the widgets, behind their live refreshes
+function createProviderContext(providerId: string): ProviderContext {
+  return {
+    fetchJson: (url) => fetchProviderData(providerId, 'alert', url),
+    fetchReferenceJson: (url) => fetchReferenceData(providerId, url),
+    readFile: (filePath) => fs.promises.readFile(filePath, 'utf-8'),
+  };
+}
+
+// Prices read as the widget shows them; when the provider can't be asked, the symbol and
+// settings still give the currency and decimals
+async function getPriceFormat(
+  provider: MarketDataProvider,
+  instrument: string,
+  settings: AlertSettings,
+  referencePrice: number,
+): Promise<PriceFormat> {
+  const fromProvider = await loadInstrumentInfo(provider, instrument, createProviderContext(provider.id))
+    .catch((): InstrumentInfo => ({}));
+  return createPriceFormat(
+    resolveInstrumentInfo(instrument, fromProvider, settings.instrumentInfo?.[instrument]),
+    referencePrice,
+  );
+}
+
+function formatTriggerTime(time: number): string {
+  return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function showAlertNotification(
+  instrument: string,
+  { alert, level }: AlertTrigger,
+  now: number,
+  priceFormat: PriceFormat,
+) {
+  if (!Notification.isSupported()) return;
+
+  const arrow = level.direction === 'above' ? '↑' : '↓';
+  const action = level.direction === 'above' ? 'crossed above' : 'crossed below';
+  const lines = [`Price ${action} ${priceFormat.format(level.price)}`];
+  // Caught up after a gap: say when it happened
+  const triggeredAt = alert.lastTriggeredAt ?? now;
+  if (now - triggeredAt > 2 * 60_000) {
+    lines[0] += ` at ${formatTriggerTime(triggeredAt)}`;
+  }
+  if (alert.type !== 'price') {
+    lines.push(describeAlert(alert, (price) => priceFormat.format(price)));
+  }
+  if (alert.note) {
+    lines.push(alert.note);
+  }
+  new Notification({ title: `${instrument} ${arrow}`, body: lines.join('\n') }).show();
+}
+
+// Smallest interval whose bars reach back to the last evaluated one
+function pickInterval(state: WatchState | undefined, now: number): { interval: string; outputsize: number } {
+  if (!state) {
+    return { interval: CATCH_UP_INTERVALS[0], outputsize: 2 };
+  }
+  for (const interval of CATCH_UP_INTERVALS) {
+    const bars = Math.ceil((now - state.time) / getIntervalMs(interval)) + 1;
+    if (bars <= MAX_BARS) {
+      return { interval, outputsize: Math.max(bars, 2) };
+    }
+  }
+  return { interval: CATCH_UP_INTERVALS[CATCH_UP_INTERVALS.length - 1], outputsize: MAX_BARS };
+}
+
+// Price moves a bar adds beyond what was already evaluated. Highs are tested for upward
+// crossings and lows for downward ones, so a wick through a level counts.
+function getBarMoves(state: WatchState, bar: Bar, interval: string): [number, number][] | null {
+  if (bar.time === state.time && interval === state.interval) {
+    // Same bar, still forming: only its extension past the range already seen
+    return [[state.high, bar.high], [state.low, bar.low]];
+  }
+  return bar.time > state.time ? [[state.close, bar.high], [state.close, bar.low]] : null;
+}
+
+// Bars since the last check, each with its interval. A coarser catch-up bar that starts at
+// or before the last evaluated one also holds price already seen, so that stretch is read
+// again at the finer interval, from the last evaluated bar on.
+async function getCatchUpBars(
+  provider: MarketDataProvider,
+  instrument: string,
+  state: WatchState,
+  bars: Bar[],
+  interval: string,
+): Promise<{ bar: Bar; interval: string }[]> {
+  if (interval === state.interval) {
+    return bars.map((bar) => ({ bar, interval }));
+  }
+  const intervalMs = getIntervalMs(interval);
+  const coarse = bars.filter((bar) => bar.time > state.time).map((bar) => ({ bar, interval }));
+  const overlap = intervalMs > getIntervalMs(state.interval)
+    ? bars.find((bar) => bar.time <= state.time && bar.time + intervalMs > state.time)
+    : undefined;
+  if (!overlap) return coarse;
+
+  const end = overlap.time + intervalMs;
+  const fine = await provider.fetchBars({
+    symbol: instrument,
+    interval: state.interval,
+    outputsize: Math.min(Math.ceil((end - state.time) / getIntervalMs(state.interval)) + 1, MAX_BARS),
+    before: end,
+  }, createProviderContext(provider.id));
+  return [
+    ...fine.filter((bar) => bar.time >= state.time).map((bar) => ({ bar, interval: state.interval })),
+    ...coarse,
+  ];
+}
+
+async function checkInstrument(
+  instrument: string,
+  settings: AlertSettings,
+  now: number,
+  service: AlertServiceOptions,
+): Promise<void> {
+  const provider = getProvider(settings.providers?.[instrument] ?? DEFAULT_PROVIDER);
+  if (provider.requiresApiKey && !getActiveApiKey(provider.id)) return;
+
+  const state = watchStates.get(instrument);
+  const { interval, outputsize } = pickInterval(state, now);
+  const bars = await provider.fetchBars(
+    { symbol: instrument, interval, outputsize },
+    createProviderContext(provider.id),
+  );
+  if (bars.length === 0) return;
+
+  const last = bars[bars.length - 1];
+  const nextState: WatchState = { interval, time: last.time, high: last.high, low: last.low, close: last.close };
+  // First look at an instrument sets the baseline, like a first price would
+  if (!state) {
+    watchStates.set(instrument, nextState);
+    return;
+  }
+
+  const pending = await getCatchUpBars(provider, instrument, state, bars, interval);
+  // Re-read: the user may have edited alerts while bars were loading
+  let alerts = normalizeAlerts(service.loadSettings().alerts?.[instrument]);
+  const changed = new Map<string, PriceAlert>();
+  const triggers: AlertTrigger[] = [];
+  let reference = state;
+
+  for (const { bar, interval: barInterval } of pending) {
+    const moves = getBarMoves(reference, bar, barInterval);
+    if (!moves) continue;
+    // A still-forming bar triggers now; closed bars when they ended
+    const at = Math.min(bar.time + getIntervalMs(barInterval), now);
+
+    alerts = alerts.map((alert) => {
+      let current = alert;
+      for (const [from, to] of moves) {
+        const result = evaluateAlert(current, from, to, at);
+        if (result.trigger) {
+          triggers.push(result.trigger);
+          changed.set(result.alert.id, result.alert);
+        }
+        current = result.alert;
+      }
+      return current;
+    });
+    reference = { interval: barInterval, time: bar.time, high: bar.high, low: bar.low, close: bar.close };
+  }
+
+  watchStates.set(instrument, nextState);
+  if (changed.size > 0) {
+    service.saveAlerts(instrument, [...changed.values()]);
+  }
+  if (triggers.length > 0) {
+    const priceFormat = await getPriceFormat(provider, instrument, settings, last.close);
+    triggers.forEach((trigger) => showAlertNotification(instrument, trigger, now, priceFormat));
+  }
+}
+
+async function checkAlerts(): Promise<void> {
+  if (!options || checking) return;
+  checking = true;
+
+  try {
+    const settings = options.loadSettings();
+    const now = Date.now();
+    for (const [instrument, raw] of Object.entries(settings.alerts ?? {})) {
+      if (!normalizeAlerts(raw).some((alert) => isAlertArmed(alert, now))) {
+        watchStates.delete(instrument);
+        continue;
+      }
+      try {
+        await checkInstrument(instrument, settings, now, options);
+      } catch (error) {
+        // Offline or rate limited: the watch state stays put, so the next poll catches up
+        console.error(`Alert check failed for ${instrument}:`, error);
+      }
+    }
+  } finally {
+    checking = false;
+  }
+}
+
+function schedulePoll(): void {
+  if (pollTimer) clearTimeout(pollTimer);
+  const seconds = Math.max(options?.loadSettings().refreshInterval || 60, MIN_POLL_SECONDS);
+  pollTimer = setTimeout(async () => {
+    await checkAlerts();
+    schedulePoll();
+  }, seconds * 1000);
+}
+
+// Watches every instrument with armed alerts, whether or not a widget shows it
+export function startAlertService(serviceOptions: AlertServiceOptions): void {
+  options = serviceOptions;
+  checkAlerts().finally(schedulePoll);
+  // Timers stall while asleep; check straight away on wake to catch up
+  powerMonitor.on('resume', () => {
+    checkAlerts().finally(schedulePoll);
+  });
+}
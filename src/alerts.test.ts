@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { createAlert, evaluateAlert, getAlertLinePrices, normalizeAlerts } from './alerts';
+
+const NOW = Date.UTC(2024, 0, 2, 12);
+const MINUTE = 60_000;
+
+describe('normalizeAlerts', () => {
+  it('turns bare prices into alerts with defaults', () => {
+    const [alert] = normalizeAlerts([1.5]);
+    expect(alert).toMatchObject({ type: 'price', price: 1.5, direction: 'either', mode: 'once', cooldownMinutes: 15, enabled: true });
+    expect(alert.id).toBeTruthy();
+  });
+
+  it('drops entries without a usable price', () => {
+    expect(normalizeAlerts([NaN, 'x', null, { price: '1' }, {}])).toEqual([]);
+    expect(normalizeAlerts('1.5')).toEqual([]);
+  });
+
+  it('replaces invalid fields with defaults and keeps valid ones', () => {
+    const [alert] = normalizeAlerts([{
+      id: 'a1',
+      price: 100,
+      type: 'channel',
+      upper: 110,
+      direction: 'sideways',
+      mode: 'repeat',
+      cooldownMinutes: 0,
+      enabled: 'yes',
+      note: 42,
+      expiresAt: NOW,
+    }]);
+    expect(alert).toEqual({
+      id: 'a1',
+      type: 'channel',
+      price: 100,
+      upper: 110,
+      direction: 'either',
+      mode: 'repeat',
+      cooldownMinutes: 15,
+      enabled: true,
+      expiresAt: NOW,
+    });
+  });
+});
+
+describe('getAlertLinePrices', () => {
+  it('draws one line for a price alert and two for a percent alert', () => {
+    expect(getAlertLinePrices(createAlert(100))).toEqual([{ price: 100, direction: 'above', field: 'price' }]);
+    expect(getAlertLinePrices(createAlert(100, { type: 'percent', percent: 5 })).map((l) => l.price)).toEqual([105, 95]);
+  });
+});
+
+describe('evaluateAlert', () => {
+  it('triggers when price crosses the level in the watched direction', () => {
+    const alert = createAlert(100, { direction: 'above' });
+    expect(evaluateAlert(alert, 99, 100, NOW).trigger?.level.direction).toBe('above');
+    expect(evaluateAlert(alert, 101, 99, NOW).trigger).toBeNull();
+    expect(evaluateAlert(alert, 100, 101, NOW).trigger).toBeNull();
+  });
+
+  it('disables a one-shot alert after it triggers', () => {
+    const { alert } = evaluateAlert(createAlert(100), 101, 99, NOW);
+    expect(alert).toMatchObject({ enabled: false, lastTriggeredAt: NOW });
+    expect(evaluateAlert(alert, 99, 101, NOW + MINUTE).trigger).toBeNull();
+  });
+
+  it('keeps a repeating alert quiet during its cooldown', () => {
+    const { alert } = evaluateAlert(createAlert(100, { mode: 'repeat', cooldownMinutes: 5 }), 99, 101, NOW);
+    expect(alert.enabled).toBe(true);
+    expect(evaluateAlert(alert, 101, 99, NOW + 4 * MINUTE).trigger).toBeNull();
+    expect(evaluateAlert(alert, 101, 99, NOW + 5 * MINUTE).trigger).not.toBeNull();
+  });
+
+  it('ignores expired alerts', () => {
+    const alert = createAlert(100, { expiresAt: NOW });
+    expect(evaluateAlert(alert, 99, 101, NOW)).toEqual({ trigger: null, alert });
+  });
+
+  it('triggers a channel alert on leaving either bound', () => {
+    const alert = createAlert(90, { type: 'channel', upper: 110 });
+    expect(evaluateAlert(alert, 100, 111, NOW).trigger?.level).toEqual({ price: 110, direction: 'above', field: 'upper' });
+    expect(evaluateAlert(alert, 100, 89, NOW).trigger?.level).toEqual({ price: 90, direction: 'below', field: 'price' });
+    expect(evaluateAlert(alert, 95, 105, NOW).trigger).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+export type AlertType = 'price' | 'percent' | 'channel';
+export type AlertDirection = 'above' | 'below' | 'either';
+export type AlertMode = 'once' | 'repeat';
+
+export interface PriceAlert {
+  id: string;
+  type: AlertType;
+  // price: the level; percent: the reference price; channel: the lower bound
+  price: number;
+  upper?: number; // channel upper bound
+  percent?: number; // percent move from the reference price
+  direction: AlertDirection;
+  mode: AlertMode;
+  cooldownMinutes: number; // repeat mode: quiet period after each trigger
+  expiresAt?: number; // epoch ms
+  note?: string;
+  enabled: boolean;
+  lastTriggeredAt?: number; // epoch ms
+}
+
+// A concrete line an alert watches; field says which alert value it comes from
+export interface AlertLevel {
+  price: number;
+  direction: 'above' | 'below';
+  field: 'price' | 'upper' | null; // null when derived (not draggable)
+}
+
+export interface AlertTrigger {
+  alert: PriceAlert;
+  level: AlertLevel;
+}
+
+export const DEFAULT_COOLDOWN_MINUTES = 15;
+
+const ALERT_TYPES: AlertType[] = ['price', 'percent', 'channel'];
+const ALERT_DIRECTIONS: AlertDirection[] = ['above', 'below', 'either'];
+const ALERT_MODES: AlertMode[] = ['once', 'repeat'];
+
+function createAlertId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createAlert(price: number, overrides: Partial<PriceAlert> = {}): PriceAlert {
+  return {
+    id: createAlertId(),
+    type: 'price',
+    price,
+    direction: 'either',
+    mode: 'once',
+    cooldownMinutes: DEFAULT_COOLDOWN_MINUTES,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isOneOf<T extends string>(values: T[], value: unknown): value is T {
+  return values.includes(value as T);
+}
+
+// Keeps only the fields of a stored alert that hold valid values; createAlert fills in
+// defaults for the rest
+function readAlertFields(entry: Record<string, unknown>): Partial<PriceAlert> {
+  const fields: Partial<PriceAlert> = {};
+  if (typeof entry.id === 'string' && entry.id) fields.id = entry.id;
+  if (isOneOf(ALERT_TYPES, entry.type)) fields.type = entry.type;
+  if (isFiniteNumber(entry.upper)) fields.upper = entry.upper;
+  if (isFiniteNumber(entry.percent) && entry.percent >= 0) fields.percent = entry.percent;
+  if (isOneOf(ALERT_DIRECTIONS, entry.direction)) fields.direction = entry.direction;
+  if (isOneOf(ALERT_MODES, entry.mode)) fields.mode = entry.mode;
+  if (isFiniteNumber(entry.cooldownMinutes) && entry.cooldownMinutes >= 1) {
+    fields.cooldownMinutes = entry.cooldownMinutes;
+  }
+  if (isFiniteNumber(entry.expiresAt)) fields.expiresAt = entry.expiresAt;
+  if (typeof entry.note === 'string' && entry.note) fields.note = entry.note;
+  if (typeof entry.enabled === 'boolean') fields.enabled = entry.enabled;
+  if (isFiniteNumber(entry.lastTriggeredAt)) fields.lastTriggeredAt = entry.lastTriggeredAt;
+  return fields;
+}
+
+// Accepts stored alerts in any older shape (bare price numbers) and fills in defaults;
+// fields with invalid values fall back to the defaults too
+export function normalizeAlerts(raw: unknown): PriceAlert[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry): PriceAlert[] => {
+    if (typeof entry === 'number') {
+      return Number.isFinite(entry) ? [createAlert(entry)] : [];
+    }
+    if (entry && typeof entry === 'object' && isFiniteNumber((entry as Record<string, unknown>).price)) {
+      const fields = entry as Record<string, unknown>;
+      return [createAlert(fields.price as number, readAlertFields(fields))];
+    }
+    return [];
+  });
+}
+
+export function getAlertLevels(alert: PriceAlert): AlertLevel[] {
+  const wantsAbove = alert.direction !== 'below';
+  const wantsBelow = alert.direction !== 'above';
+  const levels: AlertLevel[] = [];
+
+  switch (alert.type) {
+    case 'price':
+      if (wantsAbove) levels.push({ price: alert.price, direction: 'above', field: 'price' });
+      if (wantsBelow) levels.push({ price: alert.price, direction: 'below', field: 'price' });
+      break;
+    case 'percent': {
+      const move = alert.price * (alert.percent ?? 0) / 100;
+      if (wantsAbove) levels.push({ price: alert.price + move, direction: 'above', field: null });
+      if (wantsBelow) levels.push({ price: alert.price - move, direction: 'below', field: null });
+      break;
+    }
+    case 'channel':
+      // Leaving the channel: up through the upper bound or down through the lower one
+      if (wantsAbove) levels.push({ price: alert.upper ?? alert.price, direction: 'above', field: 'upper' });
+      if (wantsBelow) levels.push({ price: alert.price, direction: 'below', field: 'price' });
+      break;
+  }
+
+  return levels;
+}
+
+// Distinct prices to draw for an alert (a price alert watching both ways is one line)
+export function getAlertLinePrices(alert: PriceAlert): { price: number; field: AlertLevel['field'] }[] {
+  const seen = new Set<number>();
+  return getAlertLevels(alert).filter((level) => {
+    if (seen.has(level.price)) return false;
+    seen.add(level.price);
+    return true;
+  });
+}
+
+export function isAlertExpired(alert: PriceAlert, now: number): boolean {
+  return alert.expiresAt !== undefined && now >= alert.expiresAt;
+}
+
+export function isAlertArmed(alert: PriceAlert, now: number): boolean {
+  if (!alert.enabled || isAlertExpired(alert, now)) return false;
+  if (alert.mode === 'repeat' && alert.lastTriggeredAt !== undefined) {
+    return now - alert.lastTriggeredAt >= alert.cooldownMinutes * 60_000;
+  }
+  return true;
+}
+
+// Did price move from `from` to `to` through a level in the watched direction?
+function crosses(level: AlertLevel, from: number, to: number): boolean {
+  return level.direction === 'above'
+    ? from < level.price && to >= level.price
+    : from > level.price && to <= level.price;
+}
+
+// Checks one alert against a price move. Returns the trigger (if any) and the
+// alert as it should be stored afterwards (one-shot alerts disable themselves).
+export function evaluateAlert(
+  alert: PriceAlert,
+  from: number,
+  to: number,
+  now: number,
+): { trigger: AlertTrigger | null; alert: PriceAlert } {
+  if (!isAlertArmed(alert, now)) {
+    return { trigger: null, alert };
+  }
+
+  const level = getAlertLevels(alert).find((l) => crosses(l, from, to));
+  if (!level) {
+    return { trigger: null, alert };
+  }
+
+  const updated: PriceAlert = {
+    ...alert,
+    lastTriggeredAt: now,
+    enabled: alert.mode === 'repeat',
+  };
+  return { trigger: { alert: updated, level }, alert: updated };
+}
+
+export function describeAlert(alert: PriceAlert, formatPrice: (price: number) => string): string {
+  const direction = alert.direction === 'either' ? '' : ` ${alert.direction}`;
+  switch (alert.type) {
+    case 'percent':
+      return `${alert.percent ?? 0}% move${direction} from ${formatPrice(alert.price)}`;
+    case 'channel':
+      return `Leaves ${formatPrice(alert.price)}–${formatPrice(alert.upper ?? alert.price)}${direction}`;
+    default:
+      return `Crosses${direction} ${formatPrice(alert.price)}`;
+  }
+}
@@ -0,0 +1,213 @@
+import { app } from 'electron';
+import path from 'node:path';
+import fs from 'node:fs';
+import type { ApiLimits } from './providers';
+
+// live: a widget's own refresh; alert: background alert checks; history: paging/back-fill
+export type RequestPriority = 'live' | 'alert' | 'history';
+
+export interface BudgetStatus {
+  usedMinute: number;
+  perMinute: number;
+  usedDay: number;
+  perDay: number;
+  backoffUntil: number | null; // rate limited until then
+  queued: number;
+}
+
+interface ProviderUsage {
+  day: string; // UTC date the daily count belongs to (plans reset at 00:00 UTC)
+  usedDay: number;
+  recent: number[]; // request times within the last minute
+}
+
+interface PendingRequest {
+  provider: string;
+  priority: RequestPriority;
+  resolve: (denied: string | null) => void;
+}
+
+interface ApiBudgetOptions {
+  getLimits: (provider: string) => ApiLimits | undefined;
+  onChange: (status: Record<string, BudgetStatus>) => void;
+}
+
+const PRIORITY_ORDER: RequestPriority[] = ['live', 'alert', 'history'];
+// Share of the daily budget history requests may not touch, so live data keeps working
+const DAILY_RESERVE = 0.1;
+const MIN_BACKOFF_MS = 15_000;
+const MAX_BACKOFF_MS = 10 * 60_000;
+
+let usage: Record<string, ProviderUsage> = {};
+const backoff = new Map<string, { until: number; failures: number }>();
+const queue: PendingRequest[] = [];
+let drainTimer: ReturnType<typeof setTimeout> | null = null;
+let options: ApiBudgetOptions | null = null;
+
+function getUsagePath(): string {
+  return path.join(app.getPath('userData'), 'api-usage.json');
+}
+
+function loadUsage(): void {
+  try {
+    usage = JSON.parse(fs.readFileSync(getUsagePath(), 'utf-8'));
+  } catch {
+    usage = {};
+  }
+}
+
+function saveUsage(): void {
+  try {
+    fs.writeFileSync(getUsagePath(), JSON.stringify(usage));
+  } catch (error) {
+    console.error('Failed to save API usage:', error);
+  }
+}
+
+function getLimits(provider: string): ApiLimits {
+  return options?.getLimits(provider) ?? { perMinute: 0, perDay: 0 };
+}
+
+// Usage with stale minute entries dropped and the day count reset at UTC midnight
+function getUsage(provider: string, now: number): ProviderUsage {
+  const day = new Date(now).toISOString().slice(0, 10);
+  const current = usage[provider];
+  if (!current || current.day !== day) {
+    usage[provider] = { day, usedDay: 0, recent: current?.recent ?? [] };
+  }
+  usage[provider].recent = usage[provider].recent.filter((time) => now - time < 60_000);
+  return usage[provider];
+}
+
+// How long a request has to wait for the per-minute budget (or a back-off). Up to half
+// the minute's budget may go at once; past that, requests are spaced evenly.
+function getWaitMs(provider: string, now: number): number {
+  const { perMinute } = getLimits(provider);
+  const { recent } = getUsage(provider, now);
+  const backoffWait = Math.max(0, (backoff.get(provider)?.until ?? 0) - now);
+  if (!perMinute) return backoffWait;
+
+  let wait = 0;
+  if (recent.length >= perMinute) {
+    wait = recent[0] + 60_000 - now;
+  } else if (recent.length >= Math.ceil(perMinute / 2)) {
+    wait = recent[recent.length - 1] + 60_000 / perMinute - now;
+  }
+  return Math.max(wait, backoffWait);
+}
+
+// Why a request can't go out today at all, if it can't
+function getDenial(provider: string, priority: RequestPriority, now: number): string | null {
+  const { perDay } = getLimits(provider);
+  if (!perDay) return null;
+
+  const { usedDay } = getUsage(provider, now);
+  if (usedDay >= perDay) {
+    return `Daily API limit reached (${usedDay}/${perDay}), resets at 00:00 UTC`;
+  }
+  if (priority === 'history' && usedDay >= perDay * (1 - DAILY_RESERVE)) {
+    return 'Keeping the rest of today\'s API credits for live prices';
+  }
+  return null;
+}
+
+function record(provider: string, now: number): void {
+  const current = getUsage(provider, now);
+  current.usedDay += 1;
+  current.recent.push(now);
+  saveUsage();
+}
+
+export function getBudgetStatus(): Record<string, BudgetStatus> {
+  const now = Date.now();
+  const providers = new Set([...Object.keys(usage), ...queue.map((req) => req.provider)]);
+  const status: Record<string, BudgetStatus> = {};
+  for (const provider of providers) {
+    const { perMinute, perDay } = getLimits(provider);
+    const current = getUsage(provider, now);
+    const until = backoff.get(provider)?.until ?? 0;
+    status[provider] = {
+      usedMinute: current.recent.length,
+      perMinute,
+      usedDay: current.usedDay,
+      perDay,
+      backoffUntil: until > now ? until : null,
+      queued: queue.filter((req) => req.provider === provider).length,
+    };
+  }
+  return status;
+}
+
+// Let waiting requests go, highest priority first; a provider's lower-priority requests
+// never overtake its higher-priority ones
+function drain(): void {
+  if (drainTimer) {
+    clearTimeout(drainTimer);
+    drainTimer = null;
+  }
+
+  const now = Date.now();
+  const blocked = new Set<string>();
+  let nextWake = Infinity;
+  queue.sort((a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority));
+
+  for (let i = 0; i < queue.length;) {
+    const request = queue[i];
+    if (blocked.has(request.provider)) {
+      i++;
+      continue;
+    }
+
+    const denial = getDenial(request.provider, request.priority, now);
+    if (denial) {
+      queue.splice(i, 1);
+      request.resolve(denial);
+      continue;
+    }
+
+    const wait = getWaitMs(request.provider, now);
+    if (wait > 0) {
+      blocked.add(request.provider);
+      nextWake = Math.min(nextWake, wait);
+      i++;
+      continue;
+    }
+
+    queue.splice(i, 1);
+    record(request.provider, now);
+    request.resolve(null);
+  }
+
+  if (queue.length > 0 && nextWake < Infinity) {
+    drainTimer = setTimeout(drain, nextWake);
+  }
+  options?.onChange(getBudgetStatus());
+}
+
+// Resolves once the request may go out, or with the reason it may not
+export function requestApiCredit(provider: string, priority: RequestPriority): Promise<string | null> {
+  return new Promise((resolve) => {
+    queue.push({ provider, priority, resolve });
+    drain();
+  });
+}
+
+// Rate-limit replies back off exponentially (or as long as the provider asks)
+export function reportApiResult(provider: string, rateLimited: boolean, retryAfterMs?: number): void {
+  if (!rateLimited) {
+    if (backoff.delete(provider)) {
+      options?.onChange(getBudgetStatus());
+    }
+    return;
+  }
+
+  const failures = (backoff.get(provider)?.failures ?? 0) + 1;
+  const delay = retryAfterMs ?? Math.min(MIN_BACKOFF_MS * 2 ** (failures - 1), MAX_BACKOFF_MS);
+  backoff.set(provider, { until: Date.now() + delay, failures });
+  drain();
+}
+
+export function initApiBudget(budgetOptions: ApiBudgetOptions): void {
+  options = budgetOptions;
+  loadUsage();
+}
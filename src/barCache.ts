@@ -0,0 +1,33 @@
+import { app } from 'electron';
+import path from 'node:path';
+import fs from 'node:fs';
+import type { Bar } from './providers';
+
+// One JSON file of oldest-first bars per provider, symbol and interval
+function getCachePath(provider: string, symbol: string, interval: string): string {
+  const safe = (part: string) => part.replace(/[^A-Za-z0-9._-]/g, '_');
+  return path.join(app.getPath('userData'), 'bar-cache', safe(provider), `${safe(symbol)}_${safe(interval)}.json`);
+}
+
+export async function readCachedBars(provider: string, symbol: string, interval: string): Promise<Bar[] | null> {
+  try {
+    const data = await fs.promises.readFile(getCachePath(provider, symbol, interval), 'utf-8');
+    const bars = JSON.parse(data);
+    return Array.isArray(bars) && bars.length > 0 ? bars : null;
+  } catch {
+    return null; // not cached yet, or unreadable (it is rewritten on the next fetch)
+  }
+}
+
+export async function writeCachedBars(provider: string, symbol: string, interval: string, bars: Bar[]): Promise<void> {
+  const cachePath = getCachePath(provider, symbol, interval);
+  try {
+    await fs.promises.mkdir(path.dirname(cachePath), { recursive: true });
+    // Several widgets may show the same series; swap the file in whole
+    const tempPath = `${cachePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(bars));
+    await fs.promises.rename(tempPath, cachePath);
+  } catch (error) {
+    console.error('Failed to write bar cache:', error);
+  }
+}
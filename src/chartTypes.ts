@@ -0,0 +1,42 @@
+import type { Bar } from './providers';
+
+export const CHART_TYPES = ['line', 'area', 'candlestick', 'ohlc', 'heikin-ashi'] as const;
+
+export type ChartType = typeof CHART_TYPES[number];
+
+export const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  line: 'Line',
+  area: 'Area',
+  candlestick: 'Candles',
+  ohlc: 'OHLC',
+  'heikin-ashi': 'HA',
+};
+
+export const DEFAULT_CHART_TYPE: ChartType = 'area';
+
+export function isChartType(value: unknown): value is ChartType {
+  return CHART_TYPES.includes(value as ChartType);
+}
+
+// Chart types drawn bar-by-bar rather than as a close line
+export function isBarChartType(type: ChartType): boolean {
+  return type === 'candlestick' || type === 'ohlc' || type === 'heikin-ashi';
+}
+
+export function toHeikinAshi(bars: Bar[]): Bar[] {
+  const result: Bar[] = [];
+  for (const bar of bars) {
+    const prev = result[result.length - 1];
+    const close = (bar.open + bar.high + bar.low + bar.close) / 4;
+    const open = prev ? (prev.open + prev.close) / 2 : (bar.open + bar.close) / 2;
+    result.push({
+      time: bar.time,
+      open,
+      high: Math.max(bar.high, open, close),
+      low: Math.min(bar.low, open, close),
+      close,
+      volume: bar.volume,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,44 @@
+import { createComparison, type Comparison } from './comparisons';
+
+// Fills the comparison dropdown: watchlist instruments toggle on and off, and any other
+// symbol can be typed in. Every edit hands back a new list.
+export function renderComparisonMenu(
+  container: HTMLElement,
+  comparisons: Comparison[],
+  candidates: string[],
+  onChange: (comparisons: Comparison[]) => void,
+) {
+  const toggle = (symbol: string) => {
+    const without = comparisons.filter((c) => c.symbol !== symbol);
+    onChange(without.length < comparisons.length ? without : [...comparisons, createComparison(symbol, comparisons)]);
+  };
+
+  const symbols = [...new Set([...candidates, ...comparisons.map((c) => c.symbol)])];
+  const options: HTMLElement[] = symbols.map((symbol) => {
+    const comparison = comparisons.find((c) => c.symbol === symbol);
+    const option = document.createElement('div');
+    option.className = 'compare-option';
+    option.classList.toggle('active', !!comparison);
+    option.addEventListener('click', () => toggle(symbol));
+
+    const swatch = document.createElement('span');
+    swatch.className = 'compare-swatch';
+    swatch.style.background = comparison?.color ?? 'transparent';
+    option.append(swatch, symbol);
+    return option;
+  });
+
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'compare-input';
+  input.placeholder = 'Add symbol…';
+  input.addEventListener('keydown', (e) => {
+    if (e.key !== 'Enter') return;
+    const symbol = input.value.trim().toUpperCase();
+    if (symbol && !comparisons.some((c) => c.symbol === symbol)) {
+      onChange([...comparisons, createComparison(symbol, comparisons)]);
+    }
+  });
+
+  container.replaceChildren(...options, input);
+}
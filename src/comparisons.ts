@@ -0,0 +1,56 @@
+import type { Bar } from './providers';
+
+// Another symbol drawn over the chart, as percent change from a common start bar
+export interface Comparison {
+  symbol: string;
+  color: string;
+}
+
+export const COMPARISON_COLORS = ['#3498db', '#e67e22', '#9b59b6', '#1abc9c', '#e84393', '#f1c40f'];
+
+// New comparisons take the first color not already on the chart
+export function createComparison(symbol: string, existing: Comparison[]): Comparison {
+  const used = new Set(existing.map((c) => c.color));
+  const color = COMPARISON_COLORS.find((c) => !used.has(c))
+    ?? COMPARISON_COLORS[existing.length % COMPARISON_COLORS.length];
+  return { symbol, color };
+}
+
+// Drops malformed entries and repeated symbols
+export function normalizeComparisons(raw: unknown): Comparison[] {
+  if (!Array.isArray(raw)) return [];
+  const result: Comparison[] = [];
+  for (const entry of raw) {
+    const symbol = typeof entry?.symbol === 'string' ? entry.symbol.trim().toUpperCase() : '';
+    if (!symbol || result.some((c) => c.symbol === symbol)) continue;
+    result.push(typeof entry.color === 'string' ? { symbol, color: entry.color } : createComparison(symbol, result));
+  }
+  return result;
+}
+
+// Closes of `other` lined up with `bars` by timestamp. Each bar takes the latest close at
+// or before its time, so series trading different sessions (FX against stocks) still
+// overlay; null before `other` starts.
+export function alignCloses(bars: Bar[], other: Bar[]): (number | null)[] {
+  let j = -1;
+  return bars.map((bar) => {
+    while (j + 1 < other.length && other[j + 1].time <= bar.time) j++;
+    return j >= 0 ? other[j].close : null;
+  });
+}
+
+// First index in [start, end) where every series has a value, or -1
+export function findCommonStart(series: (number | null)[][], start: number, end: number): number {
+  for (let i = start; i < end; i++) {
+    if (series.every((values) => values[i] !== null && values[i] !== undefined)) return i;
+  }
+  return -1;
+}
+
+export function toPercentChange(values: (number | null)[], base: number): (number | null)[] {
+  return values.map((value) => (value === null ? null : (value / base - 1) * 100));
+}
+
+export function formatPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
@@ -0,0 +1,56 @@
+export type ErrorCategory = 'auth' | 'symbol' | 'rate-limit' | 'network' | 'unknown';
+
+export type Freshness = 'live' | 'stale' | 'cached' | 'offline';
+
+export interface FetchError {
+  category: ErrorCategory;
+  message: string;
+}
+
+export const ERROR_LABELS: Record<ErrorCategory, string> = {
+  auth: 'API key error',
+  symbol: 'Symbol error',
+  'rate-limit': 'Rate limited',
+  network: 'Network error',
+  unknown: 'Error',
+};
+
+// Providers only hand back message strings, so sort them by what they say
+const ERROR_PATTERNS: [ErrorCategory, RegExp][] = [
+  ['rate-limit', /rate limit|run out of api credits|credits|too many requests|call frequency|429|daily api limit/i],
+  ['auth', /api ?key|apikey|unauthori[sz]ed|forbidden|401|403|not configured/i],
+  ['symbol', /symbol|not found|invalid (pair|instrument)|no data|unsupported|only \.csv/i],
+  ['network', /failed to fetch|fetch failed|network|offline|timed? ?out|ECONN|ENOTFOUND|HTTP 5\d\d/i],
+];
+
+export function categorizeError(error: unknown): FetchError {
+  const message = error instanceof Error ? error.message : String(error ?? 'Unknown error');
+  const match = ERROR_PATTERNS.find(([, pattern]) => pattern.test(message));
+  return { category: match ? match[0] : 'unknown', message };
+}
+
+// Auth and symbol errors need the user to fix something; the others can clear up by themselves
+export function isRetryable({ category }: FetchError): boolean {
+  return category !== 'auth' && category !== 'symbol';
+}
+
+export function getFreshness(options: {
+  online: boolean;
+  hasData: boolean;
+  lastUpdatedAt: number | null; // last time the provider confirmed the data
+  staleAfterMs: number;
+  now: number;
+}): Freshness {
+  if (!options.online) return 'offline';
+  if (options.hasData && options.lastUpdatedAt === null) return 'cached';
+  if (options.lastUpdatedAt !== null && options.now - options.lastUpdatedAt > options.staleAfterMs) return 'stale';
+  return 'live';
+}
+
+export function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return `${Math.max(0, Math.floor(ms / 1000))}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 24 ? `${hours}h` : `${Math.floor(hours / 24)}d`;
+}
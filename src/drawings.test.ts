@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeDrawings } from './drawings';
+
+const A = { time: 1_700_000_000_000, price: 100 };
+const B = { time: 1_700_003_600_000, price: 110 };
+
+describe('normalizeDrawings', () => {
+  it('drops unknown types and drawings with the wrong number of points', () => {
+    expect(normalizeDrawings([
+      { type: 'circle', points: [A] },
+      { type: 'trendline', points: [A] },
+      { type: 'ray', points: [{ time: 'x', price: 1 }] },
+      null,
+    ])).toEqual([]);
+  });
+
+  it('keeps #rrggbb colors and falls back to the default for any other', () => {
+    const [kept, named, short] = normalizeDrawings([
+      { id: 'd1', type: 'rectangle', points: [A, B], color: '#00FF00' },
+      { id: 'd2', type: 'rectangle', points: [A, B], color: 'red' },
+      { id: 'd3', type: 'trendline', points: [A, B], color: '#0f0' },
+    ]);
+    expect(kept.color).toBe('#00FF00');
+    expect(named.color).toBe('#9b59b6');
+    expect(short.color).toBe('#3498db');
+  });
+
+  it('keeps text only on text notes', () => {
+    const [note, ray] = normalizeDrawings([
+      { id: 'd1', type: 'text', points: [A], text: 42 },
+      { id: 'd2', type: 'ray', points: [A], text: 'ignored' },
+    ]);
+    expect(note).toEqual({ id: 'd1', type: 'text', points: [A], color: '#ecf0f1', text: '42' });
+    expect(ray.text).toBeUndefined();
+  });
+});
@@ -0,0 +1,323 @@
+import { isHexColor, withAlpha } from './themes';
+
+export const DRAWING_TYPES = ['trendline', 'ray', 'rectangle', 'fibonacci', 'text'] as const;
+
+export type DrawingType = typeof DRAWING_TYPES[number];
+
+// Anchored to the data rather than pixels, so a drawing stays put through refreshes,
+// resizes and zooming
+export interface DrawingPoint {
+  time: number;
+  price: number;
+}
+
+export interface Drawing {
+  id: string;
+  type: DrawingType;
+  points: DrawingPoint[]; // DRAWING_SPECS[type].points of them
+  color: string;
+  text?: string; // text notes only
+}
+
+export interface DrawingSpec {
+  label: string;
+  points: 1 | 2;
+  color: string;
+}
+
+export interface Pixel {
+  x: number;
+  y: number;
+}
+
+// Maps data coordinates to canvas pixels and back, for the chart as currently drawn
+export interface DrawingProjection {
+  toPixel: (point: DrawingPoint) => Pixel;
+  fromPixel: (pixel: Pixel) => DrawingPoint;
+}
+
+interface Area {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+// What the pointer is over: one of a drawing's points, or the drawing as a whole (null)
+export interface DrawingHit {
+  id: string;
+  handle: number | null;
+}
+
+export const DRAWING_SPECS: Record<DrawingType, DrawingSpec> = {
+  trendline: { label: 'Trendline', points: 2, color: '#3498db' },
+  ray: { label: 'Horizontal ray', points: 1, color: '#e67e22' },
+  rectangle: { label: 'Price range', points: 2, color: '#9b59b6' },
+  fibonacci: { label: 'Fib retracement', points: 2, color: '#f1c40f' },
+  text: { label: 'Text note', points: 1, color: '#ecf0f1' },
+};
+
+// Measured back from the end of the move (0%) to its start (100%)
+export const FIB_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+const HIT_TOLERANCE = 5;
+const HANDLE_SIZE = 6;
+const TEXT_FONT = '11px sans-serif';
+const TEXT_HEIGHT = 14;
+
+export function isDrawingType(value: unknown): value is DrawingType {
+  return DRAWING_TYPES.includes(value as DrawingType);
+}
+
+// Every point starts where the pointer went down; placing drags the last one into position
+export function createDrawing(type: DrawingType, point: DrawingPoint): Drawing {
+  const spec = DRAWING_SPECS[type];
+  return {
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    points: Array.from({ length: spec.points }, () => ({ ...point })),
+    color: spec.color,
+    text: type === 'text' ? '' : undefined,
+  };
+}
+
+function isDrawingPoint(value: unknown): value is DrawingPoint {
+  const point = value as DrawingPoint;
+  return !!point && Number.isFinite(point.time) && Number.isFinite(point.price);
+}
+
+// Drops unknown types and drawings whose points didn't survive saving
+export function normalizeDrawings(raw: unknown): Drawing[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry): Drawing[] => {
+    if (!entry || !isDrawingType(entry.type)) return [];
+    const type: DrawingType = entry.type;
+    const spec = DRAWING_SPECS[type];
+    const points = Array.isArray(entry.points) ? entry.points.filter(isDrawingPoint) : [];
+    if (points.length !== spec.points) return [];
+    return [{
+      id: typeof entry.id === 'string' ? entry.id : createDrawing(type, points[0]).id,
+      type,
+      points: points.map(({ time, price }: DrawingPoint) => ({ time, price })),
+      color: isHexColor(entry.color) ? entry.color : spec.color,
+      text: type === 'text' ? String(entry.text ?? '') : undefined,
+    }];
+  });
+}
+
+// Fractional bar index of a time. Between bars it interpolates, so gaps such as weekends
+// don't stretch anything; beyond the data it extrapolates by the bar interval.
+export function timeToIndex(times: number[], time: number, intervalMs: number): number {
+  const last = times.length - 1;
+  if (last < 0) return 0;
+  if (time <= times[0]) return (time - times[0]) / intervalMs;
+  if (time >= times[last]) return last + (time - times[last]) / intervalMs;
+
+  let lo = 0;
+  let hi = last;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] <= time) lo = mid;
+    else hi = mid;
+  }
+  return lo + (time - times[lo]) / (times[hi] - times[lo]);
+}
+
+export function indexToTime(times: number[], index: number, intervalMs: number): number {
+  const last = times.length - 1;
+  if (last < 0) return 0;
+  if (index <= 0) return times[0] + index * intervalMs;
+  if (index >= last) return times[last] + (index - last) * intervalMs;
+
+  const lo = Math.floor(index);
+  return times[lo] + (index - lo) * (times[lo + 1] - times[lo]);
+}
+
+function getFibPrice(drawing: Drawing, level: number): number {
+  const [start, end] = drawing.points;
+  return end.price + (start.price - end.price) * level;
+}
+
+function measureNote(ctx: CanvasRenderingContext2D, text: string): number {
+  ctx.save();
+  ctx.font = TEXT_FONT;
+  const width = ctx.measureText(text).width;
+  ctx.restore();
+  return width;
+}
+
+function distanceToSegment(p: Pixel, a: Pixel, b: Pixel): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function paintDrawing(
+  ctx: CanvasRenderingContext2D,
+  area: Area,
+  drawing: Drawing,
+  projection: DrawingProjection,
+  formatPrice: (price: number) => string,
+) {
+  const pixels = drawing.points.map(projection.toPixel);
+  const [a, b] = pixels;
+  ctx.strokeStyle = drawing.color;
+  ctx.fillStyle = drawing.color;
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([]);
+
+  switch (drawing.type) {
+    case 'trendline':
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+      break;
+    case 'ray':
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(area.right, a.y);
+      ctx.stroke();
+      break;
+    case 'rectangle':
+      ctx.fillStyle = withAlpha(drawing.color, 0.15);
+      ctx.fillRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+      ctx.strokeRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+      break;
+    case 'fibonacci': {
+      const left = Math.min(a.x, b.x);
+      const right = Math.max(a.x, b.x);
+      ctx.lineWidth = 1;
+      ctx.font = '9px sans-serif';
+      ctx.textBaseline = 'bottom';
+      for (const level of FIB_LEVELS) {
+        const price = getFibPrice(drawing, level);
+        const y = projection.toPixel({ time: drawing.points[0].time, price }).y;
+        ctx.beginPath();
+        ctx.moveTo(left, y);
+        ctx.lineTo(right, y);
+        ctx.stroke();
+        ctx.fillText(`${(level * 100).toFixed(1)}% ${formatPrice(price)}`, left + 2, y - 1);
+      }
+      ctx.setLineDash([3, 3]);
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+      break;
+    }
+    case 'text':
+      ctx.font = TEXT_FONT;
+      ctx.textBaseline = 'middle';
+      ctx.fillText(drawing.text ?? '', a.x, a.y);
+      break;
+  }
+}
+
+// Drawn over the candles, clipped to the plot area; the selected drawing shows its handles
+export function paintDrawings(
+  ctx: CanvasRenderingContext2D,
+  area: Area,
+  drawings: Drawing[],
+  projection: DrawingProjection,
+  selectedId: string | null,
+  formatPrice: (price: number) => string,
+) {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(area.left, area.top, area.right - area.left, area.bottom - area.top);
+  ctx.clip();
+
+  for (const drawing of drawings) {
+    ctx.save();
+    paintDrawing(ctx, area, drawing, projection, formatPrice);
+    ctx.restore();
+
+    if (drawing.id === selectedId) {
+      ctx.fillStyle = '#fff';
+      ctx.strokeStyle = drawing.color;
+      ctx.lineWidth = 1;
+      for (const { x, y } of drawing.points.map(projection.toPixel)) {
+        ctx.fillRect(x - HANDLE_SIZE / 2, y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+        ctx.strokeRect(x - HANDLE_SIZE / 2, y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+      }
+    }
+  }
+
+  ctx.restore();
+}
+
+function isOverDrawing(
+  ctx: CanvasRenderingContext2D,
+  area: Area,
+  drawing: Drawing,
+  projection: DrawingProjection,
+  p: Pixel,
+): boolean {
+  const [a, b] = drawing.points.map(projection.toPixel);
+  switch (drawing.type) {
+    case 'trendline':
+      return distanceToSegment(p, a, b) <= HIT_TOLERANCE;
+    case 'ray':
+      return distanceToSegment(p, a, { x: area.right, y: a.y }) <= HIT_TOLERANCE;
+    case 'rectangle':
+      return p.x >= Math.min(a.x, b.x) - HIT_TOLERANCE && p.x <= Math.max(a.x, b.x) + HIT_TOLERANCE
+        && p.y >= Math.min(a.y, b.y) - HIT_TOLERANCE && p.y <= Math.max(a.y, b.y) + HIT_TOLERANCE;
+    case 'fibonacci': {
+      const left = { x: Math.min(a.x, b.x), y: 0 };
+      const right = { x: Math.max(a.x, b.x), y: 0 };
+      return distanceToSegment(p, a, b) <= HIT_TOLERANCE || FIB_LEVELS.some((level) => {
+        const y = projection.toPixel({ time: drawing.points[0].time, price: getFibPrice(drawing, level) }).y;
+        return distanceToSegment(p, { ...left, y }, { ...right, y }) <= HIT_TOLERANCE;
+      });
+    }
+    case 'text': {
+      const width = measureNote(ctx, drawing.text ?? '');
+      return p.x >= a.x - HIT_TOLERANCE && p.x <= a.x + width + HIT_TOLERANCE
+        && Math.abs(p.y - a.y) <= TEXT_HEIGHT / 2;
+    }
+  }
+}
+
+// Top-most first: handles win over bodies so overlapping drawings can still be reshaped
+export function findDrawingAt(
+  ctx: CanvasRenderingContext2D,
+  area: Area,
+  drawings: Drawing[],
+  projection: DrawingProjection,
+  p: Pixel,
+): DrawingHit | null {
+  for (let i = drawings.length - 1; i >= 0; i--) {
+    const drawing = drawings[i];
+    const handle = drawing.points.findIndex((point) => {
+      const { x, y } = projection.toPixel(point);
+      return Math.abs(p.x - x) <= HANDLE_SIZE && Math.abs(p.y - y) <= HANDLE_SIZE;
+    });
+    if (handle !== -1) return { id: drawing.id, handle };
+  }
+  for (let i = drawings.length - 1; i >= 0; i--) {
+    if (isOverDrawing(ctx, area, drawings[i], projection, p)) {
+      return { id: drawings[i].id, handle: null };
+    }
+  }
+  return null;
+}
+
+// Moves one point (or the whole drawing, for a null handle) by a pixel offset from where
+// the drag began, so the result doesn't drift with rounding
+export function dragDrawing(
+  original: Drawing,
+  handle: number | null,
+  dx: number,
+  dy: number,
+  projection: DrawingProjection,
+): Drawing {
+  const points = original.points.map((point, i) => {
+    if (handle !== null && i !== handle) return point;
+    const { x, y } = projection.toPixel(point);
+    return projection.fromPixel({ x: x + dx, y: y + dy });
+  });
+  return { ...original, points };
+}
@@ -0,0 +1,50 @@
+// Electron accelerators, e.g. "CommandOrControl+Alt+W"; an empty string turns one off
+export interface HotkeySettings {
+  toggleVisible?: string;
+  bringToFront?: string;
+  toggleGhost?: string;
+}
+
+export type HotkeyAction = keyof HotkeySettings;
+
+export const DEFAULT_HOTKEYS: Required<HotkeySettings> = {
+  toggleVisible: 'CommandOrControl+Alt+W',
+  bringToFront: 'CommandOrControl+Alt+F',
+  toggleGhost: 'CommandOrControl+Alt+G',
+};
+
+export function getHotkey(hotkeys: HotkeySettings | undefined, action: HotkeyAction): string {
+  return hotkeys?.[action] ?? DEFAULT_HOTKEYS[action];
+}
+
+const NAMED_KEYS: Record<string, string> = {
+  Space: 'Space',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown',
+  Insert: 'Insert',
+};
+
+// The accelerator for a pressed key combination, or null while only modifiers are held.
+// Uses the physical key, so Alt/Shift variants of a character don't change the result.
+// A global shortcut without a modifier would swallow that key in every app, so one is required.
+export function toAccelerator(e: KeyboardEvent): string | null {
+  let key: string | null = null;
+  if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3);
+  else if (/^Digit[0-9]$/.test(e.code)) key = e.code.slice(5);
+  else if (/^F([1-9]|1[0-9]|2[0-4])$/.test(e.code)) key = e.code;
+  else key = NAMED_KEYS[e.code] ?? null;
+
+  const modifiers = [
+    e.ctrlKey || e.metaKey ? 'CommandOrControl' : '',
+    e.altKey ? 'Alt' : '',
+    e.shiftKey ? 'Shift' : '',
+  ].filter(Boolean);
+  if (!key || modifiers.length === 0) return null;
+  return [...modifiers, key].join('+');
+}
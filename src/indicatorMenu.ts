@@ -0,0 +1,85 @@
+import {
+  INDICATOR_SPECS,
+  INDICATOR_TYPES,
+  createIndicator,
+  isValidParamValue,
+  type Indicator,
+} from './indicators';
+
+// Fills the indicator dropdown: one row per active indicator with its parameters and
+// colors, then an "add" option per type. Every edit hands back a new list.
+export function renderIndicatorMenu(
+  container: HTMLElement,
+  indicators: Indicator[],
+  onChange: (indicators: Indicator[]) => void,
+) {
+  const update = (index: number, patch: Partial<Indicator>) => {
+    onChange(indicators.map((ind, i) => (i === index ? { ...ind, ...patch } : ind)));
+  };
+
+  const rows: HTMLElement[] = indicators.map((indicator, index) => {
+    const spec = INDICATOR_SPECS[indicator.type];
+    const row = document.createElement('div');
+    row.className = 'indicator-row';
+
+    const name = document.createElement('span');
+    name.className = 'indicator-name';
+    name.textContent = spec.label;
+    row.appendChild(name);
+
+    for (const param of spec.params) {
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.className = 'indicator-param';
+      input.title = param.label;
+      input.min = String(param.min);
+      input.step = String(param.step ?? 1);
+      input.value = String(indicator.params[param.key]);
+      input.addEventListener('change', () => {
+        const value = Number(input.value);
+        if (!isValidParamValue(param, value)) {
+          input.value = String(indicator.params[param.key]);
+          return;
+        }
+        update(index, { params: { ...indicator.params, [param.key]: value } });
+      });
+      row.appendChild(input);
+    }
+
+    spec.colors.forEach((color, colorIndex) => {
+      const input = document.createElement('input');
+      input.type = 'color';
+      input.className = 'indicator-color';
+      input.title = color.label;
+      input.value = indicator.colors[colorIndex];
+      input.addEventListener('change', () => {
+        const colors = [...indicator.colors];
+        colors[colorIndex] = input.value;
+        update(index, { colors });
+      });
+      row.appendChild(input);
+    });
+
+    const removeBtn = document.createElement('button');
+    removeBtn.className = 'indicator-remove';
+    removeBtn.title = 'Remove indicator';
+    removeBtn.textContent = '×';
+    removeBtn.addEventListener('click', () => {
+      onChange(indicators.filter((_, i) => i !== index));
+    });
+    row.appendChild(removeBtn);
+    return row;
+  });
+
+  const addRow = document.createElement('div');
+  addRow.className = 'indicator-add';
+  for (const type of INDICATOR_TYPES) {
+    const option = document.createElement('button');
+    option.className = 'indicator-add-option';
+    option.textContent = `+ ${INDICATOR_SPECS[type].label}`;
+    option.addEventListener('click', () => onChange([...indicators, createIndicator(type)]));
+    addRow.appendChild(option);
+  }
+
+  container.replaceChildren(...rows, addRow);
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { computeIndicator, createIndicator, getWarmupBars, normalizeIndicators, type Indicator, type IndicatorType } from './indicators';
+import type { Bar } from './providers';
+
+const DAY = 86_400_000;
+
+function bars(closes: number[], volume = 0): Bar[] {
+  return closes.map((close, i) => ({ time: i * DAY, open: close, high: close, low: close, close, volume }));
+}
+
+function indicator(type: IndicatorType, params: Record<string, number> = {}): Indicator {
+  const created = createIndicator(type);
+  return { ...created, params: { ...created.params, ...params } };
+}
+
+describe('normalizeIndicators', () => {
+  it('drops unknown types and fills in defaults', () => {
+    const [sma, ...rest] = normalizeIndicators([{ id: 'i1', type: 'sma' }, { type: 'ichimoku' }, null]);
+    expect(rest).toEqual([]);
+    expect(sma).toEqual({ id: 'i1', type: 'sma', params: { period: 20 }, colors: ['#f1c40f'] });
+  });
+
+  it('keeps only known params with valid values', () => {
+    const [macd] = normalizeIndicators([{ type: 'macd', params: { fast: 5, slow: 1, signal: '9', extra: 3 } }]);
+    expect(macd.params).toEqual({ fast: 5, slow: 26, signal: 9 });
+  });
+
+  it('takes whole numbers for periods and steps for the rest', () => {
+    const [rsi, bollinger] = normalizeIndicators([
+      { type: 'rsi', params: { period: 14.5, overbought: 80 } },
+      { type: 'bollinger', params: { period: 20, stdDev: 2.5 } },
+    ]);
+    expect(rsi.params).toEqual({ period: 14, overbought: 80, oversold: 30 });
+    expect(bollinger.params).toEqual({ period: 20, stdDev: 2.5 });
+  });
+
+  it('keeps stored #rrggbb colors and adds missing ones', () => {
+    const [bollinger] = normalizeIndicators([{ type: 'bollinger', colors: ['#000000', 'purple'] }]);
+    expect(bollinger.colors).toEqual(['#000000', '#8e44ad']);
+  });
+});
+
+describe('getWarmupBars', () => {
+  it('takes the longest warm-up, capped at 500 bars', () => {
+    expect(getWarmupBars([])).toBe(0);
+    expect(getWarmupBars([indicator('sma', { period: 50 }), indicator('ema', { period: 10 })])).toBe(49);
+    expect(getWarmupBars([indicator('ema', { period: 200 })])).toBe(500);
+  });
+});
+
+describe('computeIndicator', () => {
+  it('averages the last period closes for an SMA', () => {
+    const [series] = computeIndicator(indicator('sma', { period: 3 }), bars([1, 2, 3, 4, 5]));
+    expect(series.label).toBe('SMA 3');
+    expect(series.values).toEqual([null, null, 2, 3, 4]);
+  });
+
+  it('seeds an EMA with the SMA and then smooths', () => {
+    const [series] = computeIndicator(indicator('ema', { period: 3 }), bars([1, 2, 3, 7]));
+    expect(series.values).toEqual([null, null, 2, 4.5]);
+  });
+
+  it('puts flat Bollinger bands on the basis', () => {
+    const [upper, basis, lower] = computeIndicator(indicator('bollinger', { period: 2 }), bars([5, 5, 5]));
+    expect(basis.values).toEqual([null, 5, 5]);
+    expect(upper.values).toEqual(lower.values);
+  });
+
+  it('weights VWAP by volume and restarts it each day', () => {
+    const [series] = computeIndicator(indicator('vwap'), bars([10, 20], 1));
+    expect(series.values).toEqual([10, 20]);
+  });
+
+  it('reads 100 for an RSI that only rises, with its guide lines', () => {
+    const [line, overbought, oversold] = computeIndicator(indicator('rsi', { period: 2 }), bars([1, 2, 3, 4]));
+    expect(line.label).toBe('RSI 2');
+    expect(line.values).toEqual([null, null, 100, 100]);
+    expect(overbought.values).toEqual([70, 70, 70, 70]);
+    expect(oversold.style).toBe('guide');
+  });
+
+  it('returns the MACD histogram, line and signal aligned with the bars', () => {
+    const closes = Array.from({ length: 40 }, (_, i) => 100 + i);
+    const series = computeIndicator(indicator('macd'), bars(closes));
+    expect(series.map((s) => s.style)).toEqual(['histogram', 'line', 'line']);
+    series.forEach((s) => expect(s.values).toHaveLength(40));
+    expect(series[1].values[24]).toBeNull();
+    expect(series[1].values[25]).toBeCloseTo(7);
+  });
+});
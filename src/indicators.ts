@@ -0,0 +1,304 @@
+import type { Bar } from './providers';
+import { isHexColor } from './themes';
+
+export const INDICATOR_TYPES = ['sma', 'ema', 'bollinger', 'vwap', 'rsi', 'macd'] as const;
+
+export type IndicatorType = typeof INDICATOR_TYPES[number];
+
+export interface Indicator {
+  id: string;
+  type: IndicatorType;
+  params: Record<string, number>;
+  colors: string[]; // one per line the indicator draws, in INDICATOR_SPECS order
+}
+
+export interface IndicatorParam {
+  key: string;
+  label: string;
+  value: number; // default
+  min: number;
+  step?: number; // fractional values allowed in these steps; whole numbers when unset
+}
+
+export interface IndicatorSpec {
+  label: string;
+  pane: 'overlay' | 'sub'; // drawn over the price or in the pane below it
+  oscillator?: boolean; // values on a fixed 0-100 scale rather than in price units
+  params: IndicatorParam[];
+  colors: { label: string; value: string }[];
+  // Bars needed before the first value is settled (EMA-based ones converge slowly)
+  warmup: (params: Record<string, number>) => number;
+}
+
+export interface IndicatorSeries {
+  label: string;
+  color: string;
+  values: (number | null)[];
+  style: 'line' | 'dashed' | 'histogram' | 'guide';
+}
+
+export const INDICATOR_SPECS: Record<IndicatorType, IndicatorSpec> = {
+  sma: {
+    label: 'SMA',
+    pane: 'overlay',
+    params: [{ key: 'period', label: 'Period', value: 20, min: 1 }],
+    colors: [{ label: 'Line', value: '#f1c40f' }],
+    warmup: ({ period }) => period - 1,
+  },
+  ema: {
+    label: 'EMA',
+    pane: 'overlay',
+    params: [{ key: 'period', label: 'Period', value: 20, min: 1 }],
+    colors: [{ label: 'Line', value: '#3498db' }],
+    warmup: ({ period }) => period * 3,
+  },
+  bollinger: {
+    label: 'Bollinger',
+    pane: 'overlay',
+    params: [
+      { key: 'period', label: 'Period', value: 20, min: 2 },
+      { key: 'stdDev', label: 'Std dev', value: 2, min: 0.1, step: 0.1 },
+    ],
+    colors: [
+      { label: 'Bands', value: '#9b59b6' },
+      { label: 'Basis', value: '#8e44ad' },
+    ],
+    warmup: ({ period }) => period - 1,
+  },
+  vwap: {
+    label: 'VWAP',
+    pane: 'overlay',
+    params: [],
+    colors: [{ label: 'Line', value: '#e67e22' }],
+    warmup: () => 0,
+  },
+  rsi: {
+    label: 'RSI',
+    pane: 'sub',
+    oscillator: true,
+    params: [
+      { key: 'period', label: 'Period', value: 14, min: 2 },
+      { key: 'overbought', label: 'Upper', value: 70, min: 50 },
+      { key: 'oversold', label: 'Lower', value: 30, min: 0 },
+    ],
+    colors: [{ label: 'Line', value: '#1abc9c' }],
+    warmup: ({ period }) => period * 3,
+  },
+  macd: {
+    label: 'MACD',
+    pane: 'sub',
+    params: [
+      { key: 'fast', label: 'Fast', value: 12, min: 1 },
+      { key: 'slow', label: 'Slow', value: 26, min: 2 },
+      { key: 'signal', label: 'Signal', value: 9, min: 1 },
+    ],
+    colors: [
+      { label: 'MACD', value: '#3498db' },
+      { label: 'Signal', value: '#e67e22' },
+      { label: 'Histogram', value: '#95a5a6' },
+    ],
+    warmup: ({ slow, signal }) => slow * 3 + signal,
+  },
+};
+
+// Longest warm-up we fetch for; providers cap how many bars one request returns
+const MAX_WARMUP_BARS = 500;
+
+export function isIndicatorType(value: unknown): value is IndicatorType {
+  return INDICATOR_TYPES.includes(value as IndicatorType);
+}
+
+export function createIndicator(type: IndicatorType): Indicator {
+  const spec = INDICATOR_SPECS[type];
+  return {
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    params: Object.fromEntries(spec.params.map((p) => [p.key, p.value])),
+    colors: spec.colors.map((c) => c.value),
+  };
+}
+
+// Periods and the like must be whole numbers, or the window math breaks
+export function isValidParamValue(param: IndicatorParam, value: unknown): value is number {
+  return typeof value === 'number'
+    && Number.isFinite(value)
+    && value >= param.min
+    && (param.step !== undefined || Number.isInteger(value));
+}
+
+// Known params with a usable value; anything else (missing, not a number, below the
+// minimum, fractional) gets the default, as the menu does for typed values
+function readParams(type: IndicatorType, raw: unknown): Record<string, number> {
+  const stored = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  return Object.fromEntries(INDICATOR_SPECS[type].params.map((param) => {
+    const value = stored[param.key];
+    return [param.key, isValidParamValue(param, value) ? value : param.value];
+  }));
+}
+
+// Drops unknown types and fills in params/colors added since the indicator was saved
+export function normalizeIndicators(raw: unknown): Indicator[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry): Indicator[] => {
+    if (!entry || !isIndicatorType(entry.type)) return [];
+    const defaults = createIndicator(entry.type);
+    const colors = Array.isArray(entry.colors) ? entry.colors : [];
+    return [{
+      id: typeof entry.id === 'string' ? entry.id : defaults.id,
+      type: entry.type,
+      params: readParams(entry.type, entry.params),
+      colors: defaults.colors.map((color, i) => (isHexColor(colors[i]) ? colors[i] : color)),
+    }];
+  });
+}
+
+export function getWarmupBars(indicators: Indicator[]): number {
+  const bars = indicators.map((ind) => INDICATOR_SPECS[ind.type].warmup(ind.params));
+  return Math.min(Math.max(0, ...bars), MAX_WARMUP_BARS);
+}
+
+export function describeIndicator(indicator: Indicator): string {
+  const spec = INDICATOR_SPECS[indicator.type];
+  const params = spec.params.slice(0, indicator.type === 'rsi' ? 1 : undefined);
+  const args = params.map((p) => indicator.params[p.key]).join(', ');
+  return args ? `${spec.label} ${args}` : spec.label;
+}
+
+function sma(values: number[], period: number): (number | null)[] {
+  let sum = 0;
+  return values.map((value, i) => {
+    sum += value;
+    if (i >= period) sum -= values[i - period];
+    return i >= period - 1 ? sum / period : null;
+  });
+}
+
+// Seeded with the SMA of the first `period` values
+function ema(values: (number | null)[], period: number): (number | null)[] {
+  const k = 2 / (period + 1);
+  let prev: number | null = null;
+  let seed: number[] = [];
+  return values.map((value) => {
+    if (value === null) return null;
+    if (prev === null) {
+      seed.push(value);
+      if (seed.length < period) return null;
+      prev = seed.reduce((a, b) => a + b, 0) / period;
+      seed = [];
+      return prev;
+    }
+    prev = value * k + prev * (1 - k);
+    return prev;
+  });
+}
+
+function bollinger(closes: number[], period: number, stdDev: number) {
+  const basis = sma(closes, period);
+  const upper: (number | null)[] = [];
+  const lower: (number | null)[] = [];
+  basis.forEach((mean, i) => {
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+    const window = closes.slice(i - period + 1, i + 1);
+    const deviation = Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period);
+    upper.push(mean + stdDev * deviation);
+    lower.push(mean - stdDev * deviation);
+  });
+  return { basis, upper, lower };
+}
+
+// Anchored to the UTC day; sources without volume (most FX) weight bars equally
+function vwap(bars: Bar[]): number[] {
+  const hasVolume = bars.some((bar) => bar.volume > 0);
+  let day = -1;
+  let priceVolume = 0;
+  let volume = 0;
+  return bars.map((bar) => {
+    const barDay = Math.floor(bar.time / 86_400_000);
+    if (barDay !== day) {
+      day = barDay;
+      priceVolume = 0;
+      volume = 0;
+    }
+    const weight = hasVolume ? bar.volume : 1;
+    priceVolume += ((bar.high + bar.low + bar.close) / 3) * weight;
+    volume += weight;
+    return volume > 0 ? priceVolume / volume : bar.close;
+  });
+}
+
+// Wilder's smoothing
+function rsi(closes: number[], period: number): (number | null)[] {
+  let avgGain = 0;
+  let avgLoss = 0;
+  return closes.map((close, i) => {
+    if (i === 0) return null;
+    const change = close - closes[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    if (i <= period) {
+      avgGain += gain / period;
+      avgLoss += loss / period;
+      if (i < period) return null;
+    } else {
+      avgGain = (avgGain * (period - 1) + gain) / period;
+      avgLoss = (avgLoss * (period - 1) + loss) / period;
+    }
+    return avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss);
+  });
+}
+
+function macd(closes: number[], fast: number, slow: number, signal: number) {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const line = closes.map((_, i) => (
+    fastEma[i] === null || slowEma[i] === null ? null : fastEma[i] - slowEma[i]
+  ));
+  const signalLine = ema(line, signal);
+  const histogram = line.map((value, i) => (
+    value === null || signalLine[i] === null ? null : value - signalLine[i]
+  ));
+  return { line, signalLine, histogram };
+}
+
+// Values line up with `bars`; null where there is not enough history yet
+export function computeIndicator(indicator: Indicator, bars: Bar[]): IndicatorSeries[] {
+  const closes = bars.map((bar) => bar.close);
+  const { params, colors } = indicator;
+  const label = describeIndicator(indicator);
+  const constant = (value: number) => closes.map(() => value);
+
+  switch (indicator.type) {
+    case 'sma':
+      return [{ label, color: colors[0], values: sma(closes, params.period), style: 'line' }];
+    case 'ema':
+      return [{ label, color: colors[0], values: ema(closes, params.period), style: 'line' }];
+    case 'bollinger': {
+      const bands = bollinger(closes, params.period, params.stdDev);
+      return [
+        { label: `${label} upper`, color: colors[0], values: bands.upper, style: 'line' },
+        { label: `${label} basis`, color: colors[1], values: bands.basis, style: 'dashed' },
+        { label: `${label} lower`, color: colors[0], values: bands.lower, style: 'line' },
+      ];
+    }
+    case 'vwap':
+      return [{ label, color: colors[0], values: vwap(bars), style: 'line' }];
+    case 'rsi':
+      return [
+        { label, color: colors[0], values: rsi(closes, params.period), style: 'line' },
+        { label: '', color: colors[0], values: constant(params.overbought), style: 'guide' },
+        { label: '', color: colors[0], values: constant(params.oversold), style: 'guide' },
+      ];
+    case 'macd': {
+      const result = macd(closes, params.fast, params.slow, params.signal);
+      return [
+        { label: `${label} hist`, color: colors[2], values: result.histogram, style: 'histogram' },
+        { label, color: colors[0], values: result.line, style: 'line' },
+        { label: `${label} signal`, color: colors[1], values: result.signalLine, style: 'line' },
+      ];
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { app, safeStorage } from 'electron';
+import path from 'node:path';
+import fs from 'node:fs';
+import { randomUUID } from 'node:crypto';
+
+// What windows get to see of a key: enough to tell keys apart, never the key itself
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  hint: string; // last few characters
+  sessionOnly?: boolean; // couldn't be encrypted, so it is forgotten on quit
+}
+
+export interface ProviderKeys {
+  active: string | null; // id of the key requests use
+  keys: ApiKeyInfo[];
+}
+
+interface StoredKey extends ApiKeyInfo {
+  secret: string; // safeStorage ciphertext in base64, or the key itself when sessionOnly
+}
+
+interface StoredProviderKeys {
+  active: string | null;
+  keys: StoredKey[];
+}
+
+let store: Record<string, StoredProviderKeys> | null = null;
+
+function getStorePath(): string {
+  return path.join(app.getPath('userData'), 'api-keys.json');
+}
+
+function loadStore(): Record<string, StoredProviderKeys> {
+  if (store) return store;
+  try {
+    store = JSON.parse(fs.readFileSync(getStorePath(), 'utf-8'));
+  } catch {
+    store = {};
+  }
+  return store;
+}
+
+// Session-only keys stay out of the file
+function saveStore(): void {
+  const persisted: Record<string, StoredProviderKeys> = {};
+  for (const [provider, entry] of Object.entries(loadStore())) {
+    const keys = entry.keys.filter((key) => !key.sessionOnly);
+    if (keys.length === 0) continue;
+    const active = keys.some((key) => key.id === entry.active) ? entry.active : keys[0].id;
+    persisted[provider] = { active, keys };
+  }
+  try {
+    const storePath = getStorePath();
+    const tempPath = `${storePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(persisted, null, 2));
+    fs.renameSync(tempPath, storePath);
+  } catch (error) {
+    console.error('Failed to save API keys:', error);
+  }
+}
+
+function getHint(key: string): string {
+  return key.length > 8 ? `…${key.slice(-4)}` : '…';
+}
+
+function createStoredKey(name: string, key: string, sessionOnly: boolean): StoredKey {
+  return {
+    id: randomUUID(),
+    name: name.trim() || 'Default',
+    hint: getHint(key),
+    secret: sessionOnly ? key : safeStorage.encryptString(key).toString('base64'),
+    ...(sessionOnly ? { sessionOnly } : {}),
+  };
+}
+
+function addStoredKey(provider: string, stored: StoredKey): void {
+  const keys = loadStore();
+  const entry = keys[provider] ?? { active: null, keys: [] };
+  keys[provider] = { active: stored.id, keys: [...entry.keys, stored] };
+}
+
+export function listApiKeys(): Record<string, ProviderKeys> {
+  const result: Record<string, ProviderKeys> = {};
+  for (const [provider, entry] of Object.entries(loadStore())) {
+    if (entry.keys.length === 0) continue;
+    result[provider] = {
+      active: entry.active,
+      keys: entry.keys.map(({ id, name, hint, sessionOnly }) => ({ id, name, hint, sessionOnly })),
+    };
+  }
+  return result;
+}
+
+// A new key becomes the one in use
+export function addApiKey(provider: string, name: string, key: string): void {
+  const trimmed = key.trim();
+  if (!trimmed) throw new Error('Enter an API key');
+  if (!safeStorage.isEncryptionAvailable()) {
+    throw new Error('No system keychain is available to store the key securely');
+  }
+  addStoredKey(provider, createStoredKey(name, trimmed, false));
+  saveStore();
+}
+
+// Removing the key in use falls back to the provider's first remaining key
+export function removeApiKey(provider: string, id: string): void {
+  const entry = loadStore()[provider];
+  if (!entry) return;
+  const keys = entry.keys.filter((key) => key.id !== id);
+  const active = keys.some((key) => key.id === entry.active) ? entry.active : keys[0]?.id ?? null;
+  loadStore()[provider] = { active, keys };
+  saveStore();
+}
+
+export function setActiveApiKey(provider: string, id: string): void {
+  const entry = loadStore()[provider];
+  if (!entry?.keys.some((key) => key.id === id)) return;
+  entry.active = id;
+  saveStore();
+}
+
+// The decrypted key in use for a provider, or '' when there is none (or it can no longer
+// be decrypted, e.g. after the keychain was reset)
+export function getActiveApiKey(provider: string): string {
+  const entry = loadStore()[provider];
+  const stored = entry?.keys.find((key) => key.id === entry.active);
+  if (!stored) return '';
+  if (stored.sessionOnly) return stored.secret;
+  try {
+    return safeStorage.decryptString(Buffer.from(stored.secret, 'base64'));
+  } catch (error) {
+    console.error(`Failed to decrypt the ${provider} API key:`, error);
+    return '';
+  }
+}
+
+// Takes over plaintext keys from an older settings file. Returns false when they couldn't
+// be encrypted; they are then used for this session only and the caller should keep them.
+export function importPlaintextApiKeys(apiKeys: Record<string, string>): boolean {
+  const encrypt = safeStorage.isEncryptionAvailable();
+  for (const [provider, key] of Object.entries(apiKeys)) {
+    const trimmed = key.trim();
+    if (!trimmed) continue;
+    addStoredKey(provider, createStoredKey('Default', trimmed, !encrypt));
+  }
+  if (encrypt) saveStore();
+  return encrypt;
+}
@@ -1,36 +1,63 @@
-import { app, BrowserWindow, ipcMain } from 'electron';
+import {
+  app,
+  BrowserWindow,
+  dialog,
+  globalShortcut,
+  ipcMain,
+  Notification,
+  screen,
+  type Rectangle,
+  type WebContents,
+} from 'electron';
 import path from 'node:path';
 import fs from 'node:fs';
+import { randomUUID } from 'node:crypto';
 import started from 'electron-squirrel-startup';
+import type { PriceAlert } from './alerts';
+import { startAlertService } from './alertService';
+import { getBudgetStatus, initApiBudget, type RequestPriority } from './apiBudget';
+import { readCachedBars, writeCachedBars } from './barCache';
+import { getHotkey, type HotkeyAction, type HotkeySettings } from './hotkeys';
+import {
+  addApiKey,
+  importPlaintextApiKeys,
+  listApiKeys,
+  removeApiKey,
+  setActiveApiKey,
+} from './keyStore';
+import {
+  addProfile,
+  applyProfile,
+  deleteProfile,
+  listProfiles,
+  saveProfile,
+  storeCurrentLayout,
+} from './profiles';
+import { closeStreamRelay, fetchProviderData, fetchReferenceData, openStreamRelay, sendStreamRelay } from './providerProxy';
+import { getProvider, type Bar } from './providers';
+import {
+  DEFAULT_SETTINGS,
+  SETTINGS_VERSION,
+  WIDGET_FIELDS,
+  isSettingsObject,
+  migrateSettings,
+  normalizeProfile,
+  validateSettings,
+  validateSettingsPatch,
+  type Settings,
+  type SettingsPatch,
+  type WidgetConfig,
+  type WidgetFields,
+} from './settingsSchema';
+import { createTray, updateTrayMenu, type TrayWidget } from './tray';
+import { fitBoundsToDisplays, getDisplayIdForBounds, snapToEdges } from './windowPlacement';
 
 if (started) {
   app.quit();
 }
 
-interface Settings {
-  instrument: string;
-  apiKey: string;
-  timezone: string;
-  refreshInterval: number; // in seconds
-  accentColor: string;
-  miniMode: boolean;
-  opacity: number; // 0.1 to 1.0
-  alerts?: Record<string, number[]>; // instrument -> price alerts
-  timeframe?: string; // 1min, 5min, 15min, 30min, 1h, 4h, 1day
-}
-
-const defaultSettings: Settings = {
-  instrument: 'XAU/USD',
-  apiKey: '',
-  timezone: '',
-  refreshInterval: 60,
-  accentColor: '#E0E8FF',
-  miniMode: false,
-  opacity: 0.75,
-};
-
-// Store normal bounds when switching to mini mode
-let normalBounds: { width: number; height: number } | null = null;
+// Store normal bounds per widget when switching to mini mode
+const normalBounds = new Map<string, { width: number; height: number }>();
 const MINI_WIDTH = 140;
 const MINI_HEIGHT = 54;
 
@@ -38,35 +65,212 @@ function getSettingsPath(): string {
   return path.join(app.getPath('userData'), 'settings.json');
 }
 
+// A settings file that can't be parsed is kept aside, so a bad edit or a crash mid-write
+// doesn't silently cost the user everything
+function backupCorruptSettings(settingsPath: string, error: unknown): void {
+  const backupPath = path.join(path.dirname(settingsPath), `settings.corrupt-${Date.now()}.json`);
+  console.error(`Settings file is corrupt, moved to ${backupPath}:`, error);
+  try {
+    fs.renameSync(settingsPath, backupPath);
+  } catch (renameError) {
+    console.error('Failed to back up corrupt settings:', renameError);
+    return;
+  }
+  if (app.isReady() && Notification.isSupported()) {
+    new Notification({
+      title: 'Settings were reset',
+      body: `The settings file could not be read and was saved as ${path.basename(backupPath)}.`,
+    }).show();
+  }
+}
+
 function loadSettings(): Settings {
+  const settingsPath = getSettingsPath();
+  let raw: unknown;
   try {
-    const settingsPath = getSettingsPath();
-    if (fs.existsSync(settingsPath)) {
-      const data = fs.readFileSync(settingsPath, 'utf-8');
-      return { ...defaultSettings, ...JSON.parse(data) };
-    }
+    if (!fs.existsSync(settingsPath)) return { ...DEFAULT_SETTINGS };
+    raw = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
   } catch (error) {
-    console.error('Failed to load settings:', error);
+    if (error instanceof SyntaxError) {
+      backupCorruptSettings(settingsPath, error);
+    } else {
+      console.error('Failed to load settings:', error);
+    }
+    return { ...DEFAULT_SETTINGS };
+  }
+  if (!isSettingsObject(raw)) {
+    backupCorruptSettings(settingsPath, new Error('Not a settings object'));
+    return { ...DEFAULT_SETTINGS };
   }
-  return defaultSettings;
+
+  const { settings, migrated } = migrateSettings(raw);
+  const validated = validateSettings(settings);
+  // Migrations run once: ids they hand out must stay the same from then on
+  if (migrated) {
+    writeSettingsFile(validated);
+  }
+  return validated;
 }
 
-function saveSettings(settings: Settings): void {
+// Written to a temporary file first, so a crash can't leave half a file behind
+function writeSettingsFile(settings: Settings): void {
   try {
     const settingsPath = getSettingsPath();
-    fs.writeFileSync(settingsPath, JSON.stringify(settings, null, 2));
+    const tempPath = `${settingsPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify({ ...settings, version: SETTINGS_VERSION }, null, 2));
+    fs.renameSync(tempPath, settingsPath);
   } catch (error) {
     console.error('Failed to save settings:', error);
   }
 }
 
-let mainWindow: BrowserWindow | null = null;
+// Cached so window-move handlers don't read settings.json on every event
+let snapEnabled = DEFAULT_SETTINGS.snapToEdges;
+
+// Plaintext keys from older settings files move to the key store. They stay in the file
+// only while there is no keychain to encrypt them with.
+function migratePlaintextApiKeys(): void {
+  const settings = loadSettings();
+  if (!settings.apiKeys || Object.keys(settings.apiKeys).length === 0) return;
+  if (importPlaintextApiKeys(settings.apiKeys)) {
+    const next = { ...settings };
+    delete next.apiKeys;
+    writeSettingsFile(next);
+  }
+}
+
+function saveSettings(settings: Settings): void {
+  snapEnabled = settings.snapToEdges ?? DEFAULT_SETTINGS.snapToEdges;
+  writeSettingsFile(settings);
+  updateTrayMenu();
+}
+
+function pickWidgetFields(source: Partial<Settings>): WidgetFields {
+  const fields: Partial<WidgetFields> = {};
+  for (const key of WIDGET_FIELDS) {
+    if (source[key] !== undefined) {
+      (fields as Record<string, unknown>)[key] = source[key];
+    }
+  }
+  return fields as WidgetFields;
+}
+
+// The settings a widget's renderer sees: shared settings overlaid with its own fields
+function getWidgetView(settings: Settings, widgetId: string): Settings {
+  const { widgets, ...shared } = settings;
+  delete shared.apiKeys; // keys never reach a renderer
+  delete shared.profiles;
+  delete shared.activeProfile;
+  const widget = widgets?.find((w) => w.id === widgetId);
+  return { ...shared, ...(widget ? pickWidgetFields(widget) : {}) };
+}
+
+// Split a renderer's settings back into shared fields and its widget's own fields
+function applyWidgetView(settings: Settings, widgetId: string, view: Settings): Settings {
+  const shared: Partial<Settings> = { ...view };
+  delete shared.widgets;
+  for (const key of WIDGET_FIELDS) {
+    delete shared[key];
+  }
+  const widgets = (settings.widgets ?? []).map((w) =>
+    w.id === widgetId ? { ...w, ...pickWidgetFields(view) } : w,
+  );
+  return { ...settings, ...shared, widgets };
+}
+
+function updateWidgetConfig(widgetId: string, patch: Partial<WidgetConfig>): void {
+  const settings = loadSettings();
+  saveSettings({
+    ...settings,
+    widgets: (settings.widgets ?? []).map((w) => (w.id === widgetId ? { ...w, ...patch } : w)),
+  });
+}
+
+const widgetWindows = new Map<string, BrowserWindow>();
 let settingsWindow: BrowserWindow | null = null;
+let settingsTargetId: string | null = null; // widget the settings window edits
+let quitting = false;
+
+function getWidgetIdForSender(sender: WebContents): string | null {
+  if (settingsWindow && sender === settingsWindow.webContents) {
+    return settingsTargetId;
+  }
+  for (const [id, win] of widgetWindows) {
+    if (win.webContents === sender) return id;
+  }
+  return null;
+}
+
+function getWidgetWindow(sender: WebContents): BrowserWindow | null {
+  const id = getWidgetIdForSender(sender);
+  return id ? widgetWindows.get(id) ?? null : null;
+}
+
+// Notify every widget whose view changed, except the one that made the change
+function broadcastSettings(previous: Settings, next: Settings, origin?: WebContents): void {
+  for (const [id, win] of widgetWindows) {
+    if (win.webContents === origin) continue;
+    const view = getWidgetView(next, id);
+    if (JSON.stringify(getWidgetView(previous, id)) !== JSON.stringify(view)) {
+      win.webContents.send('settings-updated', view);
+    }
+  }
+}
+
+// Store alert state changed by the alert service, by id, so edits made meanwhile survive
+function saveTriggeredAlerts(instrument: string, updated: PriceAlert[]): void {
+  const previous = loadSettings();
+  const alerts = (previous.alerts?.[instrument] ?? []).map(
+    (alert) => updated.find((u) => u.id === alert.id) ?? alert,
+  );
+  const next = { ...previous, alerts: { ...previous.alerts, [instrument]: alerts } };
+  saveSettings(next);
+  broadcastSettings(previous, next);
+}
 
-const createWindow = () => {
-  mainWindow = new BrowserWindow({
-    width: 500,
-    height: 300,
+// Persist where a widget sits; mini and normal geometry are remembered separately
+function saveWidgetBounds(widgetId: string): void {
+  const win = widgetWindows.get(widgetId);
+  if (!win || win.isDestroyed()) return;
+
+  const bounds = win.getBounds();
+  const normal = normalBounds.get(widgetId);
+  const displayId = getDisplayIdForBounds(bounds);
+
+  if (normal) {
+    const saved = loadSettings().widgets?.find((w) => w.id === widgetId)?.bounds;
+    updateWidgetConfig(widgetId, {
+      miniBounds: bounds,
+      bounds: { ...(saved ?? bounds), width: normal.width, height: normal.height },
+      displayId,
+    });
+  } else {
+    updateWidgetConfig(widgetId, { bounds, displayId });
+  }
+}
+
+// Where a widget should open: its saved geometry for the mode it was in, kept on-screen
+function getInitialBounds(widget: WidgetConfig): Partial<Rectangle> {
+  const saved = widget.miniMode && widget.miniBounds ? widget.miniBounds : widget.bounds;
+  if (!saved) return { width: 500, height: 300 };
+  return fitBoundsToDisplays(saved, widget.displayId);
+}
+
+// Re-home any widget left off-screen after a monitor is unplugged
+function refitWidgetsToDisplays(): void {
+  for (const [id, win] of widgetWindows) {
+    const bounds = win.getBounds();
+    const fitted = fitBoundsToDisplays(bounds);
+    if (fitted.x !== bounds.x || fitted.y !== bounds.y) {
+      win.setBounds(fitted);
+      saveWidgetBounds(id);
+    }
+  }
+}
+
+const createWidgetWindow = (widget: WidgetConfig) => {
+  const win = new BrowserWindow({
+    ...getInitialBounds(widget),
     minWidth: 320,
     minHeight: 200,
     frame: false,
@@ -81,33 +285,250 @@ const createWindow = () => {
       nodeIntegration: false,
     },
   });
+  widgetWindows.set(widget.id, win);
+
+  // Opening in mini mode: remember the normal size for when it is expanded again
+  if (widget.miniMode && widget.bounds) {
+    normalBounds.set(widget.id, { width: widget.bounds.width, height: widget.bounds.height });
+  }
 
   if (MAIN_WINDOW_VITE_DEV_SERVER_URL) {
-    mainWindow.loadURL(MAIN_WINDOW_VITE_DEV_SERVER_URL);
+    win.loadURL(MAIN_WINDOW_VITE_DEV_SERVER_URL);
   } else {
-    mainWindow.loadFile(
+    win.loadFile(
       path.join(__dirname, `../renderer/${MAIN_WINDOW_VITE_NAME}/index.html`),
     );
   }
 
-  mainWindow.on('closed', () => {
-    mainWindow = null;
+  let boundsTimer: ReturnType<typeof setTimeout> | null = null;
+  const scheduleBoundsSave = () => {
+    if (boundsTimer) clearTimeout(boundsTimer);
+    boundsTimer = setTimeout(() => saveWidgetBounds(widget.id), 500);
+  };
+  win.on('resized', scheduleBoundsSave);
+  win.on('moved', () => {
+    // will-move is not emitted on Linux, so snap once the drag ends there
+    if (snapEnabled) {
+      const bounds = win.getBounds();
+      const snapped = snapToEdges(bounds);
+      if (snapped.x !== bounds.x || snapped.y !== bounds.y) {
+        win.setBounds(snapped);
+      }
+    }
+    scheduleBoundsSave();
+  });
+
+  win.on('will-move', (event, newBounds) => {
+    if (!snapEnabled) return;
+    const snapped = snapToEdges(newBounds);
+    if (snapped.x !== newBounds.x || snapped.y !== newBounds.y) {
+      event.preventDefault();
+      win.setBounds(snapped);
+    }
+  });
+
+  win.on('close', (event) => {
+    if (boundsTimer) clearTimeout(boundsTimer);
+    // The last widget only hides, so the app lives on in the tray until Quit
+    if (!quitting && widgetWindows.size === 1) {
+      event.preventDefault();
+      win.hide();
+      return;
+    }
+    // Closing one of several widgets removes it; quitting keeps the whole layout
+    if (!quitting) {
+      const settings = loadSettings();
+      saveSettings({ ...settings, widgets: settings.widgets?.filter((w) => w.id !== widget.id) });
+    } else {
+      saveWidgetBounds(widget.id);
+    }
+  });
+
+  win.on('show', updateTrayMenu);
+  win.on('hide', () => {
+    if (settingsTargetId === widget.id && settingsWindow) {
+      settingsWindow.close();
+    }
+    updateTrayMenu();
   });
+
+  win.on('closed', () => {
+    // After a profile switch another window may already stand in for this id
+    if (widgetWindows.get(widget.id) === win) {
+      widgetWindows.delete(widget.id);
+      normalBounds.delete(widget.id);
+    }
+    if (settingsTargetId === widget.id && settingsWindow) {
+      settingsWindow.close();
+    }
+    updateTrayMenu();
+  });
+};
+
+function setWidgetVisible(widgetId: string | null, visible: boolean): void {
+  for (const [id, win] of widgetWindows) {
+    if (widgetId !== null && id !== widgetId) continue;
+    if (visible) {
+      win.showInactive();
+    } else {
+      win.hide();
+    }
+  }
+}
+
+// Hidden or buried widgets come back on top and take focus
+function bringWidgetsToFront(): void {
+  for (const win of widgetWindows.values()) {
+    if (win.isMinimized()) win.restore();
+    win.show();
+    win.moveTop();
+  }
+  [...widgetWindows.values()].pop()?.focus();
+}
+
+function toggleWidgetsVisible(): void {
+  const anyVisible = [...widgetWindows.values()].some((win) => win.isVisible());
+  setWidgetVisible(null, !anyVisible);
+}
+
+function getTrayWidgets(): TrayWidget[] {
+  const settings = loadSettings();
+  return [...widgetWindows].map(([id, win]) => {
+    const view = getWidgetView(settings, id);
+    return {
+      id,
+      instrument: view.instrument,
+      visible: win.isVisible(),
+      miniMode: view.miniMode,
+      ghostMode: view.ghostMode ?? false,
+    };
+  });
+}
+
+// Widgets apply ghost mode themselves, so the change is saved and styled like a click
+function setGhostMode(widgetId: string, enabled: boolean): void {
+  widgetWindows.get(widgetId)?.webContents.send('set-ghost-mode', enabled);
+}
+
+// Turns ghost mode on everywhere unless every widget already has it, then off everywhere
+function toggleGhostMode(): void {
+  const widgets = getTrayWidgets();
+  const enable = widgets.some((w) => !w.ghostMode);
+  widgets.forEach((w) => setGhostMode(w.id, enable));
+}
+
+const HOTKEY_ACTIONS: Record<HotkeyAction, () => void> = {
+  toggleVisible: toggleWidgetsVisible,
+  bringToFront: bringWidgetsToFront,
+  toggleGhost: toggleGhostMode,
 };
 
-const createSettingsWindow = () => {
+// Replaces earlier registrations. A shortcut can fail when malformed or already held by
+// another app; the rest still work.
+function registerHotkeys(hotkeys: HotkeySettings | undefined): void {
+  globalShortcut.unregisterAll();
+  for (const action of Object.keys(HOTKEY_ACTIONS) as HotkeyAction[]) {
+    const accelerator = getHotkey(hotkeys, action);
+    if (!accelerator) continue;
+    try {
+      if (!globalShortcut.register(accelerator, HOTKEY_ACTIONS[action])) {
+        console.warn(`Global shortcut ${accelerator} is in use by another application`);
+      }
+    } catch (error) {
+      console.warn(`Invalid global shortcut ${accelerator}:`, error);
+    }
+  }
+}
+
+// New widgets start as a copy of the one they were spawned from, slightly offset
+function createNewWidget(sourceId: string | null): void {
+  const settings = loadSettings();
+  const source = settings.widgets?.find((w) => w.id === sourceId);
+  const sourceWin = sourceId ? widgetWindows.get(sourceId) : undefined;
+  const sourceBounds = sourceWin?.getBounds();
+
+  const widget: WidgetConfig = {
+    ...pickWidgetFields(source ?? settings),
+    miniMode: false,
+    id: randomUUID(),
+    bounds: sourceBounds && {
+      x: sourceBounds.x + 30,
+      y: sourceBounds.y + 30,
+      width: normalBounds.get(sourceId)?.width ?? sourceBounds.width,
+      height: normalBounds.get(sourceId)?.height ?? sourceBounds.height,
+    },
+  };
+
+  saveSettings({ ...settings, widgets: [...(settings.widgets ?? []), widget] });
+  createWidgetWindow(widget);
+  updateTrayMenu();
+}
+
+// Reopen every saved widget; older settings files become a single widget
+function restoreWidgets(): void {
+  const settings = loadSettings();
+  snapEnabled = settings.snapToEdges ?? DEFAULT_SETTINGS.snapToEdges;
+  let widgets = settings.widgets ?? [];
+
+  if (widgets.length === 0) {
+    widgets = [{ ...pickWidgetFields(settings), id: randomUUID() }];
+    saveSettings({ ...settings, widgets });
+  }
+
+  widgets.forEach(createWidgetWindow);
+}
+
+function broadcastProfiles(): void {
+  const list = listProfiles(loadSettings());
+  for (const win of widgetWindows.values()) {
+    win.webContents.send('profiles-updated', list);
+  }
+}
+
+// Geometry is saved a moment after a move; profiles need it as it is right now
+function flushWidgetBounds(): void {
+  for (const id of widgetWindows.keys()) {
+    saveWidgetBounds(id);
+  }
+}
+
+// Replaces every widget with the profile's. The new windows open before the old ones go,
+// so the app never has no window (which would quit it).
+function switchProfile(id: string): void {
+  flushWidgetBounds();
+  const settings = loadSettings();
+  if (!settings.profiles?.[id] || settings.activeProfile === id) return;
+  saveSettings(applyProfile(storeCurrentLayout(settings), id));
+
+  settingsWindow?.close();
+  const previous = [...widgetWindows.values()];
+  widgetWindows.clear();
+  normalBounds.clear();
+  restoreWidgets();
+  previous.forEach((win) => win.destroy());
+  updateTrayMenu();
+}
+
+const createSettingsWindow = (widgetId: string | null) => {
   if (settingsWindow) {
-    settingsWindow.focus();
-    return;
+    if (settingsTargetId === widgetId) {
+      settingsWindow.focus();
+      return;
+    }
+    // Reopen for the widget that asked, so the form shows its settings
+    settingsWindow.close();
   }
 
+  settingsTargetId = widgetId;
+  const parent = widgetId ? widgetWindows.get(widgetId) : undefined;
+
   settingsWindow = new BrowserWindow({
     width: 350,
-    height: 540,
+    height: 740,
     frame: false,
     transparent: true,
     resizable: false,
-    parent: mainWindow,
+    parent,
     modal: true,
     webPreferences: {
       preload: path.join(__dirname, 'preload.js'),
@@ -124,24 +545,207 @@ const createSettingsWindow = () => {
     );
   }
 
-  settingsWindow.on('closed', () => {
-    settingsWindow = null;
+  const win = settingsWindow;
+  win.on('closed', () => {
+    if (settingsWindow === win) {
+      settingsWindow = null;
+      settingsTargetId = null;
+    }
   });
 };
 
 // IPC Handlers
-ipcMain.handle('get-settings', () => loadSettings());
+ipcMain.handle('get-settings', (event) => {
+  const settings = loadSettings();
+  return getWidgetView(settings, getWidgetIdForSender(event.sender) ?? '');
+});
 
-ipcMain.handle('save-settings', (_event, settings: Settings) => {
-  saveSettings(settings);
-  if (mainWindow) {
-    mainWindow.webContents.send('settings-updated', settings);
+// Windows send only the fields they changed, applied over the file as it is now, so two
+// windows editing different fields can't undo each other's changes
+ipcMain.handle('patch-settings', (event, patch: SettingsPatch) => {
+  const widgetId = getWidgetIdForSender(event.sender);
+  if (!widgetId) return false;
+
+  const fields = validateSettingsPatch(patch);
+  delete fields.version;
+  delete fields.widgets;
+  delete fields.apiKeys;
+  delete fields.profiles;
+  delete fields.activeProfile;
+
+  const previous = loadSettings();
+  const next = applyWidgetView(previous, widgetId, { ...getWidgetView(previous, widgetId), ...fields });
+  saveSettings(next);
+  if (JSON.stringify(previous.hotkeys) !== JSON.stringify(next.hotkeys)) {
+    registerHotkeys(next.hotkeys);
   }
+
+  // The settings window edits on behalf of its widget, which still needs to hear about it
+  const origin = settingsWindow && event.sender === settingsWindow.webContents
+    ? settingsWindow.webContents
+    : event.sender;
+  broadcastSettings(previous, next, origin);
   return true;
 });
 
-ipcMain.on('open-settings', () => {
-  createSettingsWindow();
+// Layout profiles. Widgets only ever see their names; switching reopens every widget.
+ipcMain.handle('get-profiles', () => listProfiles(loadSettings()));
+
+ipcMain.on('switch-profile', (_event, id: string) => {
+  switchProfile(id);
+});
+
+ipcMain.handle('save-profile', (_event, name: string) => {
+  const trimmed = String(name ?? '').trim().slice(0, 60);
+  if (!trimmed) throw new Error('Enter a name for the profile');
+  flushWidgetBounds();
+  saveSettings(saveProfile(loadSettings(), trimmed));
+  broadcastProfiles();
+});
+
+ipcMain.handle('delete-profile', async (event, id: string) => {
+  const profile = loadSettings().profiles?.[id];
+  const parent = BrowserWindow.fromWebContents(event.sender);
+  if (!profile || !parent) return;
+  const { response } = await dialog.showMessageBox(parent, {
+    type: 'question',
+    message: `Delete the profile "${profile.name}"?`,
+    detail: 'The widgets on screen stay as they are.',
+    buttons: ['Delete', 'Cancel'],
+    defaultId: 1,
+    cancelId: 1,
+  });
+  if (response !== 0) return;
+  saveSettings(deleteProfile(loadSettings(), id));
+  broadcastProfiles();
+});
+
+// Profiles hold no keys or stream URL, so the file is safe to hand to someone else. The
+// active profile is exported as the layout is now.
+ipcMain.handle('export-profile', async (event, id: string) => {
+  let settings = loadSettings();
+  if (settings.activeProfile === id) {
+    flushWidgetBounds();
+    settings = saveProfile(loadSettings(), settings.profiles?.[id]?.name ?? '');
+    saveSettings(settings);
+  }
+  const profile = settings.profiles?.[id];
+  const parent = BrowserWindow.fromWebContents(event.sender);
+  if (!profile || !parent) return '';
+
+  const { canceled, filePath } = await dialog.showSaveDialog(parent, {
+    defaultPath: `${profile.name.replace(/[\\/:*?"<>|]/g, '_')}.json`,
+    filters: [{ name: 'Profile', extensions: ['json'] }],
+  });
+  if (canceled || !filePath) return '';
+  await fs.promises.writeFile(filePath, JSON.stringify(profile, null, 2));
+  return `Exported to ${path.basename(filePath)}`;
+});
+
+ipcMain.handle('import-profile', async (event) => {
+  const parent = BrowserWindow.fromWebContents(event.sender);
+  if (!parent) return '';
+  const { canceled, filePaths } = await dialog.showOpenDialog(parent, {
+    properties: ['openFile'],
+    filters: [{ name: 'Profile', extensions: ['json'] }],
+  });
+  if (canceled || filePaths.length === 0) return '';
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.promises.readFile(filePaths[0], 'utf-8'));
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  const profile = normalizeProfile(raw);
+  if (!profile) throw new Error('Not a profile: it needs a name and at least one widget');
+  saveSettings(addProfile(loadSettings(), profile));
+  broadcastProfiles();
+  return `Imported "${profile.name}"`;
+});
+
+// Backs the local file provider; only data files can be read, and none of the app's own
+// (settings.json may still hold plaintext keys where safeStorage is unavailable)
+ipcMain.handle('read-data-file', async (_event, filePath: string) => {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext !== '.csv' && ext !== '.json') {
+    throw new Error('Only .csv and .json files are supported');
+  }
+  // Real paths, so neither a symlink nor ".." segments lead into the app's folder
+  const [resolved, userData] = await Promise.all([
+    fs.promises.realpath(filePath),
+    fs.promises.realpath(app.getPath('userData')),
+  ]);
+  const relative = path.relative(userData, resolved);
+  if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+    throw new Error("The app's own files can't be used as data");
+  }
+  return fs.promises.readFile(resolved, 'utf-8');
+});
+
+// Provider requests and price sockets run here, where the API keys are; windows send URLs
+// with a placeholder for the key
+ipcMain.handle('provider-fetch', (_event, provider: string, priority: RequestPriority, url: string) =>
+  fetchProviderData(provider, priority, url),
+);
+
+ipcMain.handle('provider-fetch-reference', (_event, provider: string, url: string) =>
+  fetchReferenceData(provider, url),
+);
+
+ipcMain.on('open-stream', (event, streamId: string, provider: string, url: string) => {
+  openStreamRelay(event.sender, streamId, provider, url);
+});
+
+ipcMain.on('send-stream', (event, streamId: string, data: string) => {
+  sendStreamRelay(event.sender, streamId, data);
+});
+
+ipcMain.on('close-stream', (event, streamId: string) => {
+  closeStreamRelay(event.sender, streamId);
+});
+
+ipcMain.handle('get-api-budget', () => getBudgetStatus());
+
+// Windows manage keys by name; they can add one but never read a key back
+function broadcastApiKeys(): void {
+  const keys = listApiKeys();
+  for (const win of BrowserWindow.getAllWindows()) {
+    win.webContents.send('api-keys-updated', keys);
+  }
+}
+
+ipcMain.handle('get-api-keys', () => listApiKeys());
+
+ipcMain.handle('add-api-key', (_event, provider: string, name: string, key: string) => {
+  addApiKey(provider, name, key);
+  broadcastApiKeys();
+});
+
+ipcMain.handle('remove-api-key', (_event, provider: string, id: string) => {
+  removeApiKey(provider, id);
+  broadcastApiKeys();
+});
+
+ipcMain.handle('set-active-api-key', (_event, provider: string, id: string) => {
+  setActiveApiKey(provider, id);
+  broadcastApiKeys();
+});
+
+ipcMain.handle('read-bar-cache', (_event, provider: string, symbol: string, interval: string) =>
+  readCachedBars(provider, symbol, interval),
+);
+
+ipcMain.on('write-bar-cache', (_event, provider: string, symbol: string, interval: string, bars: Bar[]) => {
+  writeCachedBars(provider, symbol, interval, bars);
+});
+
+ipcMain.on('open-settings', (event) => {
+  createSettingsWindow(getWidgetIdForSender(event.sender));
+});
+
+ipcMain.on('new-widget', (event) => {
+  createNewWidget(getWidgetIdForSender(event.sender));
 });
 
 ipcMain.on('close-settings', () => {
@@ -150,47 +754,57 @@ ipcMain.on('close-settings', () => {
   }
 });
 
-ipcMain.on('close-window', () => {
-  if (mainWindow) {
-    mainWindow.close();
-  }
+ipcMain.on('close-window', (event) => {
+  getWidgetWindow(event.sender)?.close();
 });
 
-ipcMain.on('minimize-window', () => {
-  if (mainWindow) {
-    mainWindow.minimize();
-  }
+ipcMain.on('minimize-window', (event) => {
+  getWidgetWindow(event.sender)?.minimize();
+});
+
+// Ghost mode ignores the mouse but still forwards moves (Windows and macOS), so the
+// widget can notice the pointer over its handle and take clicks again
+ipcMain.on('set-ignore-mouse-events', (event, ignore: boolean) => {
+  getWidgetWindow(event.sender)?.setIgnoreMouseEvents(ignore, { forward: true });
 });
 
-ipcMain.on('toggle-mini-mode', (_event, enableMini: boolean) => {
-  if (!mainWindow) return;
+ipcMain.on('toggle-mini-mode', (event, enableMini: boolean) => {
+  const widgetId = getWidgetIdForSender(event.sender);
+  const win = widgetId ? widgetWindows.get(widgetId) : null;
+  if (!win) return;
 
-  const bounds = mainWindow.getBounds();
+  const bounds = win.getBounds();
 
   if (enableMini) {
-    // Save current bounds before going mini
-    normalBounds = { width: bounds.width, height: bounds.height };
-    mainWindow.setResizable(false);
-    mainWindow.setMinimumSize(MINI_WIDTH, MINI_HEIGHT);
-    mainWindow.setMaximumSize(MINI_WIDTH, MINI_HEIGHT);
-    mainWindow.setSize(MINI_WIDTH, MINI_HEIGHT);
+    // Save current bounds before going mini (unless already mini)
+    if (!normalBounds.has(widgetId)) {
+      normalBounds.set(widgetId, { width: bounds.width, height: bounds.height });
+    }
+    win.setResizable(false);
+    win.setMinimumSize(MINI_WIDTH, MINI_HEIGHT);
+    win.setMaximumSize(MINI_WIDTH, MINI_HEIGHT);
+    win.setSize(MINI_WIDTH, MINI_HEIGHT);
   } else {
     // Restore to normal size
-    const width = normalBounds?.width || 500;
-    const height = normalBounds?.height || 300;
-    mainWindow.setMaximumSize(0, 0);
-    mainWindow.setMinimumSize(300, 200);
-    mainWindow.setSize(width, height);
-    mainWindow.setResizable(true);
+    const width = normalBounds.get(widgetId)?.width || 500;
+    const height = normalBounds.get(widgetId)?.height || 300;
+    normalBounds.delete(widgetId);
+    win.setMaximumSize(0, 0);
+    win.setMinimumSize(300, 200);
+    win.setSize(width, height);
+    win.setResizable(true);
   }
+
+  saveWidgetBounds(widgetId);
 });
 
-ipcMain.handle('get-window-bounds', () => mainWindow?.getBounds());
+ipcMain.handle('get-window-bounds', (event) => getWidgetWindow(event.sender)?.getBounds());
 
-ipcMain.on('resize-window', (_event, dx: number, dy: number, direction: string) => {
-  if (!mainWindow) return;
+ipcMain.on('resize-window', (event, dx: number, dy: number, direction: string) => {
+  const win = getWidgetWindow(event.sender);
+  if (!win) return;
 
-  const bounds = mainWindow.getBounds();
+  const bounds = win.getBounds();
   const minWidth = 320;
   const minHeight = 200;
 
@@ -213,10 +827,47 @@ ipcMain.on('resize-window', (_event, dx: number, dy: number, direction: string)
     height = newHeight;
   }
 
-  mainWindow.setBounds({ x, y, width, height });
+  win.setBounds({ x, y, width, height });
 });
 
-app.on('ready', createWindow);
+app.on('ready', () => {
+  initApiBudget({
+    getLimits: (provider) => loadSettings().apiLimits?.[provider] ?? getProvider(provider).limits,
+    onChange: (status) => {
+      for (const win of BrowserWindow.getAllWindows()) {
+        win.webContents.send('api-budget-updated', status);
+      }
+    },
+  });
+  migratePlaintextApiKeys();
+  restoreWidgets();
+  createTray({
+    getWidgets: getTrayWidgets,
+    getWatchlist: () => loadSettings().watchlist ?? [],
+    setVisible: setWidgetVisible,
+    setMiniMode: (widgetId, enabled) => widgetWindows.get(widgetId)?.webContents.send('set-mini-mode', enabled),
+    setGhostMode,
+    selectInstrument: (widgetId, instrument) =>
+      widgetWindows.get(widgetId)?.webContents.send('select-instrument', instrument),
+    openSettings: (widgetId) => {
+      setWidgetVisible(widgetId, true);
+      createSettingsWindow(widgetId);
+    },
+    newWidget: () => createNewWidget([...widgetWindows.keys()].pop() ?? null),
+  });
+  registerHotkeys(loadSettings().hotkeys);
+  startAlertService({ loadSettings, saveAlerts: saveTriggeredAlerts });
+  screen.on('display-removed', refitWidgetsToDisplays);
+  screen.on('display-metrics-changed', refitWidgetsToDisplays);
+});
+
+app.on('before-quit', () => {
+  quitting = true;
+});
+
+app.on('will-quit', () => {
+  globalShortcut.unregisterAll();
+});
 
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
@@ -226,6 +877,6 @@ app.on('window-all-closed', () => {
 
 app.on('activate', () => {
   if (BrowserWindow.getAllWindows().length === 0) {
-    createWindow();
+    restoreWidgets();
   }
 });
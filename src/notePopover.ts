@@ -0,0 +1,44 @@
+const popoverEl = document.getElementById('note-popover') as HTMLFormElement;
+const textInput = document.getElementById('note-text') as HTMLInputElement;
+
+let onSave: ((text: string) => void) | null = null;
+
+// Keep clicks and key presses inside the popover from reaching the chart/shortcuts
+popoverEl.addEventListener('click', (e) => e.stopPropagation());
+popoverEl.addEventListener('mousedown', (e) => e.stopPropagation());
+popoverEl.addEventListener('keydown', (e) => {
+  e.stopPropagation();
+  if (e.key === 'Escape') closeNotePopover();
+});
+
+popoverEl.addEventListener('submit', (e) => {
+  e.preventDefault();
+  const save = onSave;
+  const text = textInput.value.trim();
+  closeNotePopover();
+  save?.(text);
+});
+
+export function isNotePopoverOpen(): boolean {
+  return popoverEl.classList.contains('open');
+}
+
+// Asks for a text note's text near (x, y), in widget-relative pixels. Saving an empty
+// note hands back '' so the caller can drop it.
+export function openNotePopover(text: string, x: number, y: number, save: (text: string) => void) {
+  onSave = save;
+  textInput.value = text;
+  popoverEl.classList.add('open');
+
+  const parent = popoverEl.offsetParent as HTMLElement | null;
+  const maxLeft = (parent?.clientWidth ?? window.innerWidth) - popoverEl.offsetWidth - 8;
+  const maxTop = (parent?.clientHeight ?? window.innerHeight) - popoverEl.offsetHeight - 8;
+  popoverEl.style.left = `${Math.max(8, Math.min(x, maxLeft))}px`;
+  popoverEl.style.top = `${Math.max(8, Math.min(y, maxTop))}px`;
+  textInput.focus();
+}
+
+export function closeNotePopover() {
+  popoverEl.classList.remove('open');
+  onSave = null;
+}
@@ -1,32 +1,106 @@
-import { contextBridge, ipcRenderer } from 'electron';
-
-export interface Settings {
-  instrument: string;
-  apiKey: string;
-  timezone: string;
-  refreshInterval: number;
-  accentColor: string;
-  miniMode: boolean;
-  opacity: number;
-  alerts?: Record<string, number[]>;
-  timeframe?: string;
+import { contextBridge, ipcRenderer, type Rectangle } from 'electron';
+import type { Bar } from './providers';
+import type { BudgetStatus, RequestPriority } from './apiBudget';
+import type { ProviderKeys } from './keyStore';
+import type { ProfileList } from './profiles';
+import type { StreamEventType } from './providerProxy';
+import type { Settings, SettingsPatch } from './settingsSchema';
+
+// invoke() rejects with "Error invoking remote method '<channel>': Error: <message>";
+// windows show the message, so only that is passed on
+function invokeForMessage<T>(channel: string, ...args: unknown[]): Promise<T> {
+  return ipcRenderer.invoke(channel, ...args).catch((error: Error) => {
+    throw new Error(error.message.replace(/^Error invoking remote method '[^']+': (\w*Error: )?/, ''));
+  });
 }
 
-contextBridge.exposeInMainWorld('electronAPI', {
+// The API both windows get as window.electronAPI
+const electronAPI = {
   // Settings
   getSettings: () => ipcRenderer.invoke('get-settings') as Promise<Settings>,
-  saveSettings: (settings: Settings) => ipcRenderer.invoke('save-settings', settings),
+  patchSettings: (patch: SettingsPatch) => ipcRenderer.invoke('patch-settings', patch) as Promise<boolean>,
   openSettings: () => ipcRenderer.send('open-settings'),
   closeSettings: () => ipcRenderer.send('close-settings'),
+  newWidget: () => ipcRenderer.send('new-widget'),
   onSettingsUpdated: (callback: (settings: Settings) => void) => {
     ipcRenderer.on('settings-updated', (_event, settings) => callback(settings));
   },
 
+  // Layout profiles; export and import resolve to a message for the menu ('' if cancelled)
+  getProfiles: () => ipcRenderer.invoke('get-profiles') as Promise<ProfileList>,
+  switchProfile: (id: string) => ipcRenderer.send('switch-profile', id),
+  saveProfile: (name: string) => invokeForMessage<void>('save-profile', name),
+  deleteProfile: (id: string) => invokeForMessage<void>('delete-profile', id),
+  exportProfile: (id: string) => invokeForMessage<string>('export-profile', id),
+  importProfile: () => invokeForMessage<string>('import-profile'),
+  onProfilesUpdated: (callback: (list: ProfileList) => void) => {
+    ipcRenderer.on('profiles-updated', (_event, list) => callback(list));
+  },
+
+  // Data
+  readDataFile: (filePath: string) => ipcRenderer.invoke('read-data-file', filePath) as Promise<string>,
+  readBarCache: (provider: string, symbol: string, interval: string) =>
+    ipcRenderer.invoke('read-bar-cache', provider, symbol, interval) as Promise<Bar[] | null>,
+  writeBarCache: (provider: string, symbol: string, interval: string, bars: Bar[]) =>
+    ipcRenderer.send('write-bar-cache', provider, symbol, interval, bars),
+
+  // Provider requests go through the main process, which fills in the API key
+  providerFetch: (provider: string, priority: RequestPriority, url: string) =>
+    invokeForMessage<unknown>('provider-fetch', provider, priority, url),
+  providerFetchReference: (provider: string, url: string) =>
+    invokeForMessage<unknown>('provider-fetch-reference', provider, url),
+  openStream: (streamId: string, provider: string, url: string) =>
+    ipcRenderer.send('open-stream', streamId, provider, url),
+  sendStream: (streamId: string, data: string) => ipcRenderer.send('send-stream', streamId, data),
+  closeStream: (streamId: string) => ipcRenderer.send('close-stream', streamId),
+  onStreamEvent: (callback: (streamId: string, type: StreamEventType, data?: string) => void) => {
+    ipcRenderer.on('stream-event', (_event, streamId, type, data) => callback(streamId, type, data));
+  },
+
+  // API keys, by name; a key can be added but never read back
+  getApiKeys: () => ipcRenderer.invoke('get-api-keys') as Promise<Record<string, ProviderKeys>>,
+  addApiKey: (provider: string, name: string, key: string) =>
+    invokeForMessage<void>('add-api-key', provider, name, key),
+  removeApiKey: (provider: string, id: string) => ipcRenderer.invoke('remove-api-key', provider, id) as Promise<void>,
+  setActiveApiKey: (provider: string, id: string) =>
+    ipcRenderer.invoke('set-active-api-key', provider, id) as Promise<void>,
+  onApiKeysUpdated: (callback: (keys: Record<string, ProviderKeys>) => void) => {
+    ipcRenderer.on('api-keys-updated', (_event, keys) => callback(keys));
+  },
+
+  // API budget
+  getApiBudget: () => ipcRenderer.invoke('get-api-budget') as Promise<Record<string, BudgetStatus>>,
+  onApiBudgetUpdated: (callback: (status: Record<string, BudgetStatus>) => void) => {
+    ipcRenderer.on('api-budget-updated', (_event, status) => callback(status));
+  },
+
   // Window controls
   closeWindow: () => ipcRenderer.send('close-window'),
   minimizeWindow: () => ipcRenderer.send('minimize-window'),
   resizeWindow: (dx: number, dy: number, direction: string) =>
     ipcRenderer.send('resize-window', dx, dy, direction),
-  getWindowBounds: () => ipcRenderer.invoke('get-window-bounds'),
+  getWindowBounds: () => ipcRenderer.invoke('get-window-bounds') as Promise<Rectangle | undefined>,
   toggleMiniMode: (enableMini: boolean) => ipcRenderer.send('toggle-mini-mode', enableMini),
-});
+  setIgnoreMouseEvents: (ignore: boolean) => ipcRenderer.send('set-ignore-mouse-events', ignore),
+
+  // Tray menu actions
+  onSetMiniMode: (callback: (enabled: boolean) => void) => {
+    ipcRenderer.on('set-mini-mode', (_event, enabled) => callback(enabled));
+  },
+  onSelectInstrument: (callback: (instrument: string) => void) => {
+    ipcRenderer.on('select-instrument', (_event, instrument) => callback(instrument));
+  },
+  onSetGhostMode: (callback: (enabled: boolean) => void) => {
+    ipcRenderer.on('set-ghost-mode', (_event, enabled) => callback(enabled));
+  },
+};
+
+export type ElectronAPI = typeof electronAPI;
+
+declare global {
+  interface Window {
+    electronAPI: ElectronAPI;
+  }
+}
+
+contextBridge.exposeInMainWorld('electronAPI', electronAPI);
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { createPriceFormat, loadInstrumentInfo, resolveInstrumentInfo } from './priceFormat';
+import type { InstrumentInfo, MarketDataProvider, ProviderContext } from './providers';
+
+// Expected numbers are written with a dot; the formatter uses the locale's separator
+const DECIMAL = (1.5).toLocaleString().charAt(1);
+const local = (text: string) => text.replace('.', DECIMAL);
+
+function format(symbol: string, fromProvider: InstrumentInfo, price: number, override?: InstrumentInfo) {
+  return createPriceFormat(resolveInstrumentInfo(symbol, fromProvider, override), price);
+}
+
+describe('resolveInstrumentInfo', () => {
+  it('guesses FX precision and the quote currency from the symbol', () => {
+    expect(resolveInstrumentInfo('EUR/USD', {})).toEqual({ currency: 'USD', precision: 5 });
+    expect(resolveInstrumentInfo('usd/jpy', {})).toEqual({ currency: 'JPY', precision: 3 });
+    expect(resolveInstrumentInfo('XAU/USD', {})).toEqual({ currency: 'USD' });
+    expect(resolveInstrumentInfo('AAPL', {})).toEqual({});
+  });
+
+  it('lets the provider override the guess, and settings override both', () => {
+    expect(resolveInstrumentInfo('BTC/USDT', { tickSize: 0.01, currency: 'USDT' }, { currency: 'USD' }))
+      .toEqual({ tickSize: 0.01, currency: 'USD' });
+  });
+
+  it('drops a guessed precision when settings set only a tick size', () => {
+    expect(resolveInstrumentInfo('EUR/USD', {}, { tickSize: 0.0001 })).toEqual({ currency: 'USD', tickSize: 0.0001 });
+  });
+});
+
+describe('createPriceFormat', () => {
+  it('uses the instrument precision without a currency', () => {
+    expect(format('EUR/USD', {}, 1.0852).format(1.085234567, false)).toBe(local('1.08523'));
+    expect(format('USD/JPY', {}, 151.2).format(151.23456, false)).toBe(local('151.235'));
+  });
+
+  it('takes the decimals from the tick size', () => {
+    expect(format('SHIB/USDT', { tickSize: 1e-8 }, 0.0000123).format(0.0000123456, false)).toBe(local('0.00001235'));
+  });
+
+  it('sizes decimals to the reference price when nothing else says', () => {
+    expect(format('AAPL', {}, 190).format(190.123, false)).toBe(local('190.12'));
+    expect(format('PEPE/USDT', {}, 0.00001234).format(0.0000123456, false)).toBe(local('0.000012346'));
+  });
+
+  it('shows ISO currencies with Intl and others after the number', () => {
+    expect(format('AAPL', { currency: 'USD' }, 190).format(190.5)).toContain('$');
+    expect(format('BTC/USDT', { tickSize: 0.01 }, 60).format(60.5)).toBe(`${local('60.50')} USDT`);
+  });
+
+  it('rounds to the tick size, or to the decimals shown', () => {
+    expect(format('ES', {}, 5000, { tickSize: 0.25 }).round(5000.13)).toBe(5000.25);
+    expect(format('BTC/USDT', { tickSize: 0.01 }, 60000).round(60000.126)).toBe(60000.13);
+    expect(format('EUR/USD', {}, 1.08).round(1.085234567)).toBe(1.08523);
+  });
+});
+
+describe('loadInstrumentInfo', () => {
+  const context: ProviderContext = {
+    fetchJson: async () => ({}),
+    fetchReferenceJson: async () => ({}),
+    readFile: async () => '',
+  };
+
+  it('asks the provider once per symbol, and again after a failure', async () => {
+    let calls = 0;
+    const provider = {
+      id: 'binance',
+      getInstrumentInfo: async (symbol: string) => {
+        calls++;
+        if (symbol === 'FAIL') throw new Error('offline');
+        return { currency: 'USDT' };
+      },
+    } as unknown as MarketDataProvider;
+
+    expect(await loadInstrumentInfo(provider, 'ETH/USDT', context)).toEqual({ currency: 'USDT' });
+    await loadInstrumentInfo(provider, 'ETH/USDT', context);
+    await expect(loadInstrumentInfo(provider, 'FAIL', context)).rejects.toThrow('offline');
+    await expect(loadInstrumentInfo(provider, 'FAIL', context)).rejects.toThrow('offline');
+    expect(calls).toBe(3);
+  });
+});
@@ -0,0 +1,115 @@
+import type { InstrumentInfo, MarketDataProvider, ProviderContext } from './providers';
+
+export interface PriceFormat {
+  // In the user's locale, e.g. "$1,234.50", "¥151.234" or "0.00001234 USDT" with the currency
+  format: (price: number, withCurrency?: boolean) => string;
+  // Snaps a price to the tick size, or to the decimals shown when there is none
+  round: (price: number) => number;
+}
+
+const MAX_DECIMALS = 10;
+// Currencies traded against each other as FX pairs, quoted to a fraction of a pip
+const FX_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'NZD', 'SEK', 'NOK', 'DKK', 'SGD', 'HKD'];
+
+// What the symbol itself says: a slash pair names its quote currency
+function guessInstrumentInfo(symbol: string): InstrumentInfo {
+  const pair = /^([A-Z0-9]{2,6})\/([A-Z]{3,5})$/.exec(symbol.trim().toUpperCase());
+  if (!pair) return {};
+  const [, base, quote] = pair;
+  if (FX_CURRENCIES.includes(base) && FX_CURRENCIES.includes(quote)) {
+    return { currency: quote, precision: quote === 'JPY' ? 3 : 5 };
+  }
+  return { currency: quote };
+}
+
+// Field by field, settings win over the provider, and the provider over the guess. A tick
+// size set in settings also sets the decimals, unless those are set too.
+export function resolveInstrumentInfo(
+  symbol: string,
+  fromProvider: InstrumentInfo,
+  override?: InstrumentInfo,
+): InstrumentInfo {
+  const info: InstrumentInfo = {};
+  for (const source of [guessInstrumentInfo(symbol), fromProvider, override ?? {}]) {
+    for (const [key, value] of Object.entries(source)) {
+      if (value !== undefined && value !== '') (info as Record<string, unknown>)[key] = value;
+    }
+  }
+  if (override?.tickSize && override.precision === undefined) {
+    delete info.precision;
+  }
+  return info;
+}
+
+// Decimals in a tick size: 0.25 -> 2, 1e-8 -> 8
+function getTickDecimals(tickSize: number): number {
+  for (let decimals = 0; decimals < MAX_DECIMALS; decimals++) {
+    const scaled = tickSize * 10 ** decimals;
+    if (Math.round(scaled) > 0 && Math.abs(scaled - Math.round(scaled)) < 1e-6) return decimals;
+  }
+  return MAX_DECIMALS;
+}
+
+// Without a precision or tick size: about five significant digits, and at least two decimals
+function getMagnitudeDecimals(price: number): number {
+  const abs = Math.abs(price);
+  if (!Number.isFinite(abs) || abs === 0) return 2;
+  return Math.min(MAX_DECIMALS, Math.max(2, 4 - Math.floor(Math.log10(abs))));
+}
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+function getNumberFormat(decimals: number, currency?: string): Intl.NumberFormat {
+  const key = `${decimals}:${currency ?? ''}`;
+  let numberFormat = numberFormats.get(key);
+  if (!numberFormat) {
+    const options: Intl.NumberFormatOptions = { minimumFractionDigits: decimals, maximumFractionDigits: decimals };
+    if (currency) Object.assign(options, { style: 'currency', currency, currencyDisplay: 'narrowSymbol' });
+    numberFormat = new Intl.NumberFormat(undefined, options);
+    numberFormats.set(key, numberFormat);
+  }
+  return numberFormat;
+}
+
+// Decimals come from the precision, the tick size, or else the size of referencePrice (the
+// last price), so every label on a chart gets the same number of them
+export function createPriceFormat(info: InstrumentInfo, referencePrice?: number): PriceFormat {
+  const decimals = info.precision
+    ?? (info.tickSize ? getTickDecimals(info.tickSize) : undefined);
+  const getDecimals = (price: number) => decimals ?? getMagnitudeDecimals(referencePrice ?? price);
+  // Intl knows ISO codes; others (USDT, BUSD) follow the number
+  const isoCurrency = info.currency && /^[A-Z]{3}$/.test(info.currency) ? info.currency : undefined;
+
+  return {
+    format: (price, withCurrency = true) => {
+      const places = getDecimals(price);
+      if (!withCurrency || !info.currency) return getNumberFormat(places).format(price);
+      if (isoCurrency) return getNumberFormat(places, isoCurrency).format(price);
+      return `${getNumberFormat(places).format(price)} ${info.currency}`;
+    },
+    round: (price) => {
+      if (info.tickSize) {
+        return Number((Math.round(price / info.tickSize) * info.tickSize).toFixed(getTickDecimals(info.tickSize)));
+      }
+      return Number(price.toFixed(getDecimals(price)));
+    },
+  };
+}
+
+// Provider lookups, once per symbol while the app runs; a failed one is asked again next time
+const providerInfo = new Map<string, Promise<InstrumentInfo>>();
+
+export function loadInstrumentInfo(
+  provider: MarketDataProvider,
+  symbol: string,
+  context: ProviderContext,
+): Promise<InstrumentInfo> {
+  const key = `${provider.id}:${symbol}`;
+  let info = providerInfo.get(key);
+  if (!info) {
+    info = provider.getInstrumentInfo ? provider.getInstrumentInfo(symbol, context) : Promise.resolve({});
+    providerInfo.set(key, info);
+    info.catch(() => providerInfo.delete(key));
+  }
+  return info;
+}
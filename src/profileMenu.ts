@@ -0,0 +1,61 @@
+import type { ProfileList } from './profiles';
+
+export interface ProfileMenuActions {
+  switchTo: (id: string) => void;
+  save: (name: string) => void;
+  exportProfile: (id: string) => void;
+  importProfile: () => void;
+  deleteProfile: (id: string) => void;
+}
+
+function createRow(className: string, label: string, onClick: () => void): HTMLDivElement {
+  const row = document.createElement('div');
+  row.className = className;
+  row.textContent = label;
+  row.addEventListener('click', onClick);
+  return row;
+}
+
+// Fills the profile dropdown: picking a profile switches the whole layout to it; the one
+// in use can be saved, exported or deleted, and the layout saved under a new name
+export function renderProfileMenu(
+  container: HTMLElement,
+  list: ProfileList,
+  actions: ProfileMenuActions,
+  status: string,
+) {
+  const rows: HTMLElement[] = list.profiles.map(({ id, name }) => {
+    const row = createRow('profile-option', name, () => {
+      if (id !== list.active) actions.switchTo(id);
+    });
+    row.classList.toggle('active', id === list.active);
+    return row;
+  });
+
+  const active = list.profiles.find((p) => p.id === list.active);
+  if (rows.length > 0) {
+    rows.push(Object.assign(document.createElement('div'), { className: 'profile-separator' }));
+  }
+  if (active) {
+    rows.push(
+      createRow('profile-option', `Save "${active.name}"`, () => actions.save(active.name)),
+      createRow('profile-option', 'Export…', () => actions.exportProfile(active.id)),
+      createRow('profile-option', 'Delete', () => actions.deleteProfile(active.id)),
+    );
+  }
+  rows.push(createRow('profile-option', 'Import…', actions.importProfile));
+
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'profile-input';
+  input.placeholder = 'Save layout as…';
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter' && input.value.trim()) actions.save(input.value.trim());
+  });
+  rows.push(input);
+
+  if (status) {
+    rows.push(Object.assign(document.createElement('div'), { className: 'profile-status', textContent: status }));
+  }
+  container.replaceChildren(...rows);
+}
@@ -0,0 +1,89 @@
+import { PROFILE_FIELDS, type Profile, type Settings } from './settingsSchema';
+
+// What widgets get to see: names for the menu, not the layouts themselves
+export interface ProfileList {
+  profiles: { id: string; name: string }[];
+  active: string | null;
+}
+
+const DEFAULT_PROFILE_NAME = 'Default';
+
+function createProfileId(): string {
+  return `profile-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function listProfiles(settings: Settings): ProfileList {
+  const profiles = Object.entries(settings.profiles ?? {}).map(([id, profile]) => ({ id, name: profile.name }));
+  const active = settings.activeProfile && settings.profiles?.[settings.activeProfile] ? settings.activeProfile : null;
+  return { profiles, active };
+}
+
+function findProfileByName(settings: Settings, name: string): string | undefined {
+  const wanted = name.toLowerCase();
+  return Object.entries(settings.profiles ?? {}).find(([, profile]) => profile.name.toLowerCase() === wanted)?.[0];
+}
+
+// "Name", or "Name (2)" and so on when that is taken
+function getUniqueName(settings: Settings, name: string): string {
+  let unique = name;
+  for (let n = 2; findProfileByName(settings, unique); n++) {
+    unique = `${name} (${n})`;
+  }
+  return unique;
+}
+
+// The current layout: every widget with its own fields and geometry, plus the shared
+// fields a profile carries
+function captureProfile(settings: Settings, name: string): Profile {
+  const fields: Partial<Settings> = {};
+  for (const key of PROFILE_FIELDS) {
+    if (settings[key] !== undefined) {
+      (fields as Record<string, unknown>)[key] = settings[key];
+    }
+  }
+  return { name, settings: fields, widgets: settings.widgets ?? [] };
+}
+
+function withProfile(settings: Settings, id: string, profile: Profile): Settings {
+  return { ...settings, profiles: { ...settings.profiles, [id]: profile } };
+}
+
+// Saves the current layout under a name, over the profile of that name if there is one,
+// and makes it the active profile
+export function saveProfile(settings: Settings, name: string): Settings {
+  const id = findProfileByName(settings, name) ?? createProfileId();
+  const existing = settings.profiles?.[id];
+  return { ...withProfile(settings, id, captureProfile(settings, existing?.name ?? name)), activeProfile: id };
+}
+
+// Before switching away, the current layout goes back into its profile (or a new
+// "Default" one), so alerts set and widgets moved since aren't lost
+export function storeCurrentLayout(settings: Settings): Settings {
+  const active = settings.activeProfile ? settings.profiles?.[settings.activeProfile] : undefined;
+  return saveProfile(settings, active?.name ?? getUniqueName(settings, DEFAULT_PROFILE_NAME));
+}
+
+// The profile's layout replaces the current one; profile fields it doesn't set are cleared
+export function applyProfile(settings: Settings, id: string): Settings {
+  const profile = settings.profiles?.[id];
+  if (!profile) return settings;
+  const next: Settings = { ...settings, widgets: profile.widgets, activeProfile: id };
+  for (const key of PROFILE_FIELDS) {
+    delete next[key];
+  }
+  return { ...next, ...profile.settings };
+}
+
+// Imported profiles never replace one: a taken name gets a number
+export function addProfile(settings: Settings, profile: Profile): Settings {
+  const id = createProfileId();
+  return withProfile(settings, id, { ...profile, name: getUniqueName(settings, profile.name) });
+}
+
+export function deleteProfile(settings: Settings, id: string): Settings {
+  const profiles = { ...settings.profiles };
+  delete profiles[id];
+  const next = { ...settings, profiles };
+  if (next.activeProfile === id) delete next.activeProfile;
+  return next;
+}
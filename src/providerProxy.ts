@@ -0,0 +1,124 @@
+import type { WebContents } from 'electron';
+import { reportApiResult, requestApiCredit, type RequestPriority } from './apiBudget';
+import { getActiveApiKey } from './keyStore';
+import { API_KEY_PLACEHOLDER, fetchProviderJson, getProvider, RateLimitError } from './providers';
+
+export type StreamEventType = 'open' | 'message' | 'close' | 'failed';
+
+// Open relayed sockets, by window and the stream id the window picked
+const streams = new Map<string, WebSocket>();
+const watchedSenders = new WeakSet<WebContents>();
+
+function isProviderUrl(providerId: string, url: string): boolean {
+  const provider = getProvider(providerId);
+  return provider.id === providerId && provider.hosts.some((host) => url.startsWith(`${host}/`));
+}
+
+// Fills in the key here, at the last moment, and only for the provider's own hosts
+function withApiKey(providerId: string, url: string): string {
+  if (!url.includes(API_KEY_PLACEHOLDER)) return url;
+  if (!isProviderUrl(providerId, url)) {
+    throw new Error(`The ${providerId} API key can only be sent to its own hosts`);
+  }
+  const key = getActiveApiKey(providerId);
+  if (!key) {
+    throw new Error(`API key for ${getProvider(providerId).name} not configured`);
+  }
+  return url.split(API_KEY_PLACEHOLDER).join(encodeURIComponent(key));
+}
+
+// Every provider REST call, from a widget or the alert service: waits for API budget,
+// then fetches with the key filled in
+export async function fetchProviderData(providerId: string, priority: RequestPriority, url: string): Promise<unknown> {
+  if (!isProviderUrl(providerId, url)) {
+    throw new Error(`Not a ${providerId} URL`);
+  }
+  const keyedUrl = withApiKey(providerId, url);
+  const denied = await requestApiCredit(providerId, priority);
+  if (denied) throw new Error(denied);
+  try {
+    const data = await fetchProviderJson(keyedUrl);
+    reportApiResult(providerId, false);
+    return data;
+  } catch (error) {
+    if (error instanceof RateLimitError) reportApiResult(providerId, true, error.retryAfterMs);
+    throw error;
+  }
+}
+
+// Reference data the provider serves without a key or credits, such as symbol search. It
+// waits for no budget, though a rate limit still backs off the provider's other requests.
+export async function fetchReferenceData(providerId: string, url: string): Promise<unknown> {
+  if (!isProviderUrl(providerId, url) || url.includes(API_KEY_PLACEHOLDER)) {
+    throw new Error(`Not a keyless ${providerId} URL`);
+  }
+  try {
+    return await fetchProviderJson(url);
+  } catch (error) {
+    if (error instanceof RateLimitError) reportApiResult(providerId, true, error.retryAfterMs);
+    throw error;
+  }
+}
+
+function getStreamKey(sender: WebContents, streamId: string): string {
+  return `${sender.id}:${streamId}`;
+}
+
+// A window that goes away takes its sockets with it
+function watchSender(sender: WebContents): void {
+  if (watchedSenders.has(sender)) return;
+  watchedSenders.add(sender);
+  sender.once('destroyed', () => {
+    for (const [key, socket] of streams) {
+      if (key.startsWith(`${sender.id}:`)) {
+        streams.delete(key);
+        socket.close();
+      }
+    }
+  });
+}
+
+// Opens a price socket on a window's behalf, so keys in stream URLs stay in this process.
+// The window gets the socket's events and does its own parsing and reconnecting.
+export function openStreamRelay(sender: WebContents, streamId: string, providerId: string, url: string): void {
+  const send = (type: StreamEventType, data?: string) => {
+    if (!sender.isDestroyed()) sender.send('stream-event', streamId, type, data);
+  };
+
+  const key = getStreamKey(sender, streamId);
+  closeStreamRelay(sender, streamId);
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(withApiKey(providerId, url));
+  } catch (error) {
+    send('failed', error instanceof Error ? error.message : 'Invalid stream URL');
+    return;
+  }
+  streams.set(key, socket);
+  watchSender(sender);
+
+  socket.addEventListener('open', () => send('open'));
+  socket.addEventListener('message', (event) => {
+    if (typeof event.data === 'string') send('message', event.data);
+  });
+  socket.addEventListener('close', () => {
+    if (streams.get(key) !== socket) return; // closed by the window, which knows
+    streams.delete(key);
+    send('close');
+  });
+  // An error is always followed by close
+  socket.addEventListener('error', () => socket.close());
+}
+
+export function sendStreamRelay(sender: WebContents, streamId: string, data: string): void {
+  const socket = streams.get(getStreamKey(sender, streamId));
+  if (socket?.readyState === WebSocket.OPEN) socket.send(data);
+}
+
+export function closeStreamRelay(sender: WebContents, streamId: string): void {
+  const key = getStreamKey(sender, streamId);
+  const socket = streams.get(key);
+  if (!socket) return;
+  streams.delete(key);
+  socket.close();
+}
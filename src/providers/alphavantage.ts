@@ -0,0 +1,111 @@
+import { getIntervalMs, zonedDateTimeToEpoch } from '../time';
+import { resampleBars } from './bars';
+import { API_KEY_PLACEHOLDER, type Bar, type MarketDataProvider, type SymbolMatch } from './types';
+
+// Alpha Vantage has no 4h series, so it is built from 60min bars
+const INTERVALS: Record<string, string> = {
+  '1min': '1min',
+  '5min': '5min',
+  '15min': '15min',
+  '30min': '30min',
+  '1h': '60min',
+  '4h': '60min',
+};
+
+type SeriesPoint = Record<string, string>;
+
+interface SearchResponse {
+  bestMatches?: Record<string, string>[]; // keyed "1. symbol", "2. name" and so on
+  'Error Message'?: string;
+  Note?: string;
+  Information?: string;
+}
+type ApiResponse = Record<string, Record<string, string> | Record<string, SeriesPoint> | string>;
+
+function buildUrl(symbol: string, interval: string, full: boolean): string {
+  const size = full ? 'full' : 'compact';
+  const base = `https://www.alphavantage.co/query?apikey=${API_KEY_PLACEHOLDER}&outputsize=${size}`;
+  const [from, to] = symbol.split('/');
+  const isFx = Boolean(to);
+
+  if (interval === '1day') {
+    return isFx
+      ? `${base}&function=FX_DAILY&from_symbol=${encodeURIComponent(from)}&to_symbol=${encodeURIComponent(to)}`
+      : `${base}&function=TIME_SERIES_DAILY&symbol=${encodeURIComponent(symbol)}`;
+  }
+
+  const avInterval = INTERVALS[interval] ?? '5min';
+  return isFx
+    ? `${base}&function=FX_INTRADAY&from_symbol=${encodeURIComponent(from)}&to_symbol=${encodeURIComponent(to)}&interval=${avInterval}`
+    : `${base}&function=TIME_SERIES_INTRADAY&symbol=${encodeURIComponent(symbol)}&interval=${avInterval}`;
+}
+
+export const alphaVantageProvider: MarketDataProvider = {
+  id: 'alphavantage',
+  name: 'Alpha Vantage',
+  requiresApiKey: true,
+  hosts: ['https://www.alphavantage.co'],
+  symbolHint: 'e.g., IBM, MSFT, EUR/USD',
+  limits: { perMinute: 5, perDay: 25 },
+
+  async fetchBars({ symbol, interval, outputsize, before }, { fetchJson }) {
+    // No paging: older history comes from the full series
+    const full = outputsize > 100 || before !== undefined;
+    const data = await fetchJson(buildUrl(symbol, interval, full)) as ApiResponse;
+
+    const errorMessage = data['Error Message'] || data['Note'] || data['Information'];
+    if (typeof errorMessage === 'string') {
+      throw new Error(errorMessage);
+    }
+
+    const metaKey = Object.keys(data).find((key) => key.startsWith('Meta Data'));
+    const seriesKey = Object.keys(data).find((key) => key.startsWith('Time Series'));
+    if (!seriesKey) {
+      throw new Error('No data received');
+    }
+
+    // Intraday equities are reported in US/Eastern; FX and daily series in UTC
+    const meta = (metaKey ? data[metaKey] : {}) as Record<string, string>;
+    const zoneKey = Object.keys(meta).find((key) => key.includes('Time Zone'));
+    const timeZone = zoneKey ? meta[zoneKey].replace('US/Eastern', 'America/New_York') : 'UTC';
+
+    const series = data[seriesKey] as Record<string, SeriesPoint>;
+    let bars = Object.entries(series)
+      .map(([datetime, point]): Bar => ({
+        time: zonedDateTimeToEpoch(datetime, timeZone),
+        open: parseFloat(point['1. open']),
+        high: parseFloat(point['2. high']),
+        low: parseFloat(point['3. low']),
+        close: parseFloat(point['4. close']),
+        volume: parseFloat(point['5. volume'] ?? '0') || 0,
+      }))
+      .sort((a, b) => a.time - b.time);
+
+    if (interval === '4h') {
+      bars = resampleBars(bars, getIntervalMs('4h'));
+    }
+
+    if (bars.length === 0) {
+      throw new Error('No data received');
+    }
+
+    return bars.filter((bar) => before === undefined || bar.time < before).slice(-outputsize);
+  },
+
+  // Equities only: FX pairs aren't listed, though they can still be charted
+  async searchSymbols(query, { fetchJson }) {
+    const url = `https://www.alphavantage.co/query?function=SYMBOL_SEARCH&keywords=${encodeURIComponent(query)}&apikey=${API_KEY_PLACEHOLDER}`;
+    const data = await fetchJson(url) as SearchResponse;
+    const errorMessage = data['Error Message'] || data.Note || data.Information;
+    if (errorMessage) {
+      throw new Error(errorMessage);
+    }
+    return (data.bestMatches ?? []).map((match): SymbolMatch => ({
+      symbol: match['1. symbol'],
+      name: match['2. name'] ?? '',
+      exchange: match['4. region'] ?? '',
+      type: match['3. type'] ?? '',
+      currency: match['8. currency'] ?? '',
+    }));
+  },
+};
@@ -0,0 +1,58 @@
+import type { Bar, Tick } from './types';
+
+// Aggregate oldest-first bars into larger buckets (e.g. 1h -> 4h)
+export function resampleBars(bars: Bar[], bucketMs: number): Bar[] {
+  const result: Bar[] = [];
+  for (const bar of bars) {
+    const bucketTime = Math.floor(bar.time / bucketMs) * bucketMs;
+    const last = result[result.length - 1];
+    if (last && last.time === bucketTime) {
+      last.high = Math.max(last.high, bar.high);
+      last.low = Math.min(last.low, bar.low);
+      last.close = bar.close;
+      last.volume += bar.volume;
+    } else {
+      result.push({ ...bar, time: bucketTime });
+    }
+  }
+  return result;
+}
+
+// Fold a tick into oldest-first bars: update the last bar, or open a new one
+// when the tick falls past its interval boundary. Returns a new array.
+export function applyTick(bars: Bar[], tick: Tick, intervalMs: number, maxBars: number): Bar[] {
+  const bucketTime = Math.floor(tick.time / intervalMs) * intervalMs;
+  const last = bars[bars.length - 1];
+
+  // Ticks older than the last bar (late or replayed) are ignored
+  if (last && bucketTime < last.time) return bars;
+
+  if (last && bucketTime === last.time) {
+    const updated: Bar = {
+      ...last,
+      high: Math.max(last.high, tick.price),
+      low: Math.min(last.low, tick.price),
+      close: tick.price,
+      volume: last.volume + tick.volume,
+    };
+    return [...bars.slice(0, -1), updated];
+  }
+
+  const opened: Bar = {
+    time: bucketTime,
+    open: tick.price,
+    high: tick.price,
+    low: tick.price,
+    close: tick.price,
+    volume: tick.volume,
+  };
+  return [...bars, opened].slice(-maxBars);
+}
+
+// Fold freshly fetched bars into cached ones: everything from the first fetched bar on
+// is replaced, which also repairs a cached bar that was still forming when stored
+export function mergeBars(cached: Bar[], fresh: Bar[], maxBars: number): Bar[] {
+  if (fresh.length === 0) return cached;
+  const kept = cached.filter((bar) => bar.time < fresh[0].time);
+  return [...kept, ...fresh].slice(-maxBars);
+}
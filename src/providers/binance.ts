@@ -0,0 +1,130 @@
+import type { Bar, MarketDataProvider, ProviderContext, SymbolMatch, Tick } from './types';
+
+const INTERVALS: Record<string, string> = {
+  '1min': '1m',
+  '5min': '5m',
+  '15min': '15m',
+  '30min': '30m',
+  '1h': '1h',
+  '4h': '4h',
+  '1day': '1d',
+};
+
+// [openTime, open, high, low, close, volume, closeTime, ...]
+type Kline = [number, string, string, string, string, string, number, ...unknown[]];
+
+interface TradeEvent {
+  e?: string;
+  p?: string; // price
+  q?: string; // quantity
+  T?: number; // trade time, epoch ms
+}
+
+interface ErrorResponse {
+  code?: number;
+  msg?: string;
+}
+
+interface ExchangeInfo {
+  symbols?: {
+    baseAsset: string;
+    quoteAsset: string;
+    filters?: { filterType: string; tickSize?: string }[];
+  }[];
+}
+
+function toPair(symbol: string): string {
+  return symbol.replace(/[/\-_\s]/g, '').toUpperCase();
+}
+
+// Binance has no search endpoint, so the list of trading pairs is loaded once and
+// searched here
+let pairList: Promise<SymbolMatch[]> | null = null;
+
+function loadPairs(fetchJson: ProviderContext['fetchJson']): Promise<SymbolMatch[]> {
+  pairList ??= (async () => {
+    const data = await fetchJson('https://api.binance.com/api/v3/exchangeInfo?permissions=SPOT&symbolStatus=TRADING') as ExchangeInfo;
+    return (data.symbols ?? []).map(({ baseAsset, quoteAsset }): SymbolMatch => ({
+      symbol: `${baseAsset}/${quoteAsset}`,
+      name: `${baseAsset} / ${quoteAsset}`,
+      exchange: 'Binance',
+      type: 'Crypto',
+      currency: quoteAsset,
+    }));
+  })().catch((error) => {
+    pairList = null; // try again on the next search
+    throw error;
+  });
+  return pairList;
+}
+
+export const binanceProvider: MarketDataProvider = {
+  id: 'binance',
+  name: 'Binance',
+  requiresApiKey: false,
+  hosts: ['https://api.binance.com', 'wss://stream.binance.com:9443'],
+  symbolHint: 'e.g., BTC/USDT, ETH/BTC',
+
+  async fetchBars({ symbol, interval, outputsize, before }, { fetchJson }) {
+    const pair = toPair(symbol);
+    let url = `https://api.binance.com/api/v3/klines?symbol=${encodeURIComponent(pair)}&interval=${INTERVALS[interval] ?? '5m'}&limit=${outputsize}`;
+    if (before !== undefined) {
+      url += `&endTime=${before - 1}`;
+    }
+    const data = await fetchJson(url) as Kline[] | ErrorResponse;
+
+    if (!Array.isArray(data)) {
+      throw new Error(data.msg || 'API error');
+    }
+
+    if (data.length === 0) {
+      throw new Error('No data received');
+    }
+
+    return data.map((k): Bar => ({
+      time: k[0],
+      open: parseFloat(k[1]),
+      high: parseFloat(k[2]),
+      low: parseFloat(k[3]),
+      close: parseFloat(k[4]),
+      volume: parseFloat(k[5]),
+    }));
+  },
+
+  // Exact pair first, then pairs starting with what was typed, then the rest containing it
+  async searchSymbols(query, { fetchJson }) {
+    const wanted = toPair(query);
+    const pairs = await loadPairs(fetchJson);
+    const rank = (match: SymbolMatch) => {
+      const pair = toPair(match.symbol);
+      if (pair === wanted) return 0;
+      return pair.startsWith(wanted) ? 1 : 2;
+    };
+    return pairs
+      .filter((match) => toPair(match.symbol).includes(wanted))
+      .sort((a, b) => rank(a) - rank(b))
+      .slice(0, 20);
+  },
+
+  async getInstrumentInfo(symbol, { fetchJson }) {
+    const url = `https://api.binance.com/api/v3/exchangeInfo?symbol=${encodeURIComponent(toPair(symbol))}`;
+    const data = await fetchJson(url) as ExchangeInfo & ErrorResponse;
+    const pair = data.symbols?.[0];
+    if (!pair) return {}; // unknown symbol; the chart reports that
+    const tickSize = parseFloat(pair.filters?.find((f) => f.filterType === 'PRICE_FILTER')?.tickSize ?? '');
+    return tickSize > 0 ? { tickSize, currency: pair.quoteAsset } : { currency: pair.quoteAsset };
+  },
+
+  stream: {
+    url: (symbol) => `wss://stream.binance.com:9443/ws/${toPair(symbol).toLowerCase()}@trade`,
+    parseTick(message): Tick | null {
+      const trade = message as TradeEvent;
+      if (trade.e !== 'trade' || trade.p === undefined) return null;
+      return {
+        time: trade.T ?? Date.now(),
+        price: parseFloat(trade.p),
+        volume: parseFloat(trade.q ?? '0') || 0,
+      };
+    },
+  },
+};
@@ -0,0 +1,33 @@
+import type { PriceStreamSpec, Tick } from './types';
+
+type Message = Record<string, unknown>;
+
+function pickNumber(message: Message, fields: string[]): number | undefined {
+  for (const field of fields) {
+    const value = parseFloat(String(message[field]));
+    if (!Number.isNaN(value)) return value;
+  }
+  return undefined;
+}
+
+// Stream spec for a user-supplied socket URL (e.g. a local stand-in feed).
+// Accepts flat JSON messages such as { "price": 1.2345, "timestamp": 1700000000 }.
+export function createCustomStream(url: string): PriceStreamSpec {
+  return {
+    url: () => url,
+    subscribeMessage: (symbol) => JSON.stringify({ action: 'subscribe', params: { symbols: symbol } }),
+    parseTick(message): Tick | null {
+      if (!message || typeof message !== 'object') return null;
+      const data = message as Message;
+      const price = pickNumber(data, ['price', 'p', 'close', 'c']);
+      if (price === undefined) return null;
+
+      const time = pickNumber(data, ['timestamp', 'time', 'T', 't']) ?? Date.now();
+      return {
+        time: time < 1e12 ? time * 1000 : time,
+        price,
+        volume: pickNumber(data, ['volume', 'q', 'size', 'v']) ?? 0,
+      };
+    },
+  };
+}
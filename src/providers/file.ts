@@ -0,0 +1,104 @@
+import { getIntervalMs, zonedDateTimeToEpoch } from '../time';
+import { resampleBars } from './bars';
+import type { Bar, MarketDataProvider } from './types';
+
+const TIME_FIELDS = ['datetime', 'timestamp', 'time', 'date'];
+
+// Accepts epoch seconds/ms, ISO strings with an offset, or zone-less strings (read as UTC)
+function parseTime(value: unknown): number {
+  if (typeof value === 'number') {
+    return value < 1e12 ? value * 1000 : value;
+  }
+  const text = String(value ?? '').trim();
+  if (/^\d+$/.test(text)) {
+    return parseTime(Number(text));
+  }
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+    return Date.parse(text);
+  }
+  return zonedDateTimeToEpoch(text, 'UTC');
+}
+
+function toBar(row: Record<string, unknown>): Bar | null {
+  const timeField = TIME_FIELDS.find((field) => row[field] !== undefined);
+  if (!timeField) return null;
+
+  const time = parseTime(row[timeField]);
+  const close = parseFloat(String(row.close));
+  if (Number.isNaN(time) || Number.isNaN(close)) return null;
+
+  // Close-only files are accepted; missing OHLC fields collapse onto the close
+  const field = (name: string) => {
+    const value = parseFloat(String(row[name]));
+    return Number.isNaN(value) ? close : value;
+  };
+  const open = field('open');
+  return {
+    time,
+    open,
+    high: Math.max(field('high'), open, close),
+    low: Math.min(field('low'), open, close),
+    close,
+    volume: parseFloat(String(row.volume)) || 0,
+  };
+}
+
+function parseCsv(text: string): Record<string, unknown>[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length < 2) return [];
+
+  const header = lines[0].split(',').map((h) => h.trim().toLowerCase());
+  return lines.slice(1).map((line) => {
+    const cells = line.split(',');
+    const row: Record<string, unknown> = {};
+    header.forEach((name, i) => {
+      row[name] = cells[i]?.trim();
+    });
+    return row;
+  });
+}
+
+function parseJson(text: string): Record<string, unknown>[] {
+  const data = JSON.parse(text);
+  // Either a plain array of rows or a Twelve Data style { values: [...] } export
+  const rows = Array.isArray(data) ? data : data?.values;
+  return Array.isArray(rows) ? rows : [];
+}
+
+export const fileProvider: MarketDataProvider = {
+  id: 'file',
+  name: 'Local file (CSV/JSON)',
+  requiresApiKey: false,
+  hosts: [],
+  symbolHint: 'Path to a .csv or .json file',
+
+  async fetchBars({ symbol, interval, outputsize, before }, { readFile }) {
+    const text = await readFile(symbol);
+    const rows = symbol.toLowerCase().endsWith('.json') ? parseJson(text) : parseCsv(text);
+
+    const bars = rows
+      .map(toBar)
+      .filter((bar): bar is Bar => bar !== null)
+      .sort((a, b) => a.time - b.time);
+
+    if (bars.length === 0) {
+      throw new Error('No data received');
+    }
+
+    return resampleBars(bars, getIntervalMs(interval))
+      .filter((bar) => before === undefined || bar.time < before)
+      .slice(-outputsize);
+  },
+
+  // Nothing to search: a data file that can be read is its own match
+  async searchSymbols(query, { readFile }) {
+    const lower = query.toLowerCase();
+    if (!lower.endsWith('.csv') && !lower.endsWith('.json')) return [];
+    try {
+      await readFile(query);
+    } catch {
+      return [];
+    }
+    return [{ symbol: query, name: query.split(/[\\/]/).pop() ?? query, exchange: '', type: 'File', currency: '' }];
+  },
+};
@@ -0,0 +1,42 @@
+import { alphaVantageProvider } from './alphavantage';
+import { binanceProvider } from './binance';
+import { createCustomStream } from './custom';
+import { fileProvider } from './file';
+import { twelveDataProvider } from './twelvedata';
+import type { MarketDataProvider, PriceStreamSpec, ProviderId } from './types';
+
+export { API_KEY_PLACEHOLDER } from './types';
+export type {
+  ApiLimits,
+  Bar,
+  BarQuery,
+  InstrumentInfo,
+  MarketDataProvider,
+  PriceStreamSpec,
+  ProviderContext,
+  ProviderId,
+  SymbolMatch,
+  Tick,
+} from './types';
+
+export { applyTick, mergeBars, resampleBars } from './bars';
+export { fetchProviderJson, RateLimitError } from './rateLimit';
+
+export const DEFAULT_PROVIDER: ProviderId = 'twelvedata';
+
+export const PROVIDERS: MarketDataProvider[] = [
+  twelveDataProvider,
+  binanceProvider,
+  alphaVantageProvider,
+  fileProvider,
+];
+
+export function getProvider(id: string | undefined): MarketDataProvider {
+  return PROVIDERS.find((p) => p.id === id) ?? twelveDataProvider;
+}
+
+// A custom stream URL overrides the provider's own feed
+export function getStreamSpec(provider: MarketDataProvider, customUrl?: string): PriceStreamSpec | null {
+  if (customUrl) return createCustomStream(customUrl);
+  return provider.stream ?? null;
+}
@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchProviderJson, RateLimitError } from './rateLimit';
+
+function stubFetch(status: number, body: string, headers: Record<string, string> = {}) {
+  vi.stubGlobal('fetch', async () => new Response(body, { status, headers }));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchProviderJson', () => {
+  it('returns the parsed body', async () => {
+    stubFetch(200, '{"values":[]}');
+    expect(await fetchProviderJson('https://api.example.com/')).toEqual({ values: [] });
+  });
+
+  it('throws a RateLimitError with the wait from Retry-After on HTTP 429', async () => {
+    stubFetch(429, '', { 'Retry-After': '30' });
+    const error = await fetchProviderJson('https://api.example.com/').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({ message: 'Rate limit reached', retryAfterMs: 30_000 });
+  });
+
+  it('throws the provider notice for limits reported in a 200 response', async () => {
+    stubFetch(200, '{"code":429,"message":"You have run out of API credits"}');
+    await expect(fetchProviderJson('https://api.example.com/')).rejects.toThrow('run out of API credits');
+    stubFetch(200, '{"Note":"Our standard API call frequency is 5 calls per minute"}');
+    await expect(fetchProviderJson('https://api.example.com/')).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('reports other replies without a JSON body by status', async () => {
+    stubFetch(502, 'Bad gateway');
+    await expect(fetchProviderJson('https://api.example.com/')).rejects.toThrow('HTTP 502');
+  });
+});
@@ -0,0 +1,39 @@
+// Thrown instead of handing a limit notice (or no body at all) to the provider's parser.
+// Only the message crosses IPC, and it reads as a rate limit to categorizeError.
+export class RateLimitError extends Error {
+  constructor(message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+interface LimitNotice {
+  code?: number; // Twelve Data reports limits as a 429 code in a 200 response
+  message?: string;
+  Note?: string; // Alpha Vantage puts call-frequency notices in Note or Information
+  Information?: string;
+}
+
+// fetch() for provider REST calls that throws a RateLimitError on rate-limit replies, in
+// whichever way the provider signals them (HTTP 429/418, a 429 body code or a notice)
+export async function fetchProviderJson(url: string): Promise<unknown> {
+  const response = await fetch(url);
+  const data: unknown = await response.json().catch((): null => null);
+
+  const body = (data ?? {}) as LimitNotice;
+  const notice = body.Note ?? body.Information;
+  const rateLimited = response.status === 429
+    || response.status === 418
+    || body.code === 429
+    || (typeof notice === 'string' && /rate limit|call frequency|requests per/i.test(notice));
+
+  if (rateLimited) {
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    const message = typeof notice === 'string' ? notice : body.message;
+    throw new RateLimitError(message || 'Rate limit reached', retryAfter > 0 ? retryAfter * 1000 : undefined);
+  }
+  if (data === null) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return data;
+}
@@ -0,0 +1,118 @@
+import { zonedDateTimeToEpoch } from '../time';
+import {
+  API_KEY_PLACEHOLDER,
+  type Bar,
+  type MarketDataProvider,
+  type ProviderContext,
+  type SymbolMatch,
+  type Tick,
+} from './types';
+
+interface TimeSeriesValue {
+  datetime: string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume?: string;
+}
+
+interface PriceEvent {
+  event?: string;
+  price?: number;
+  timestamp?: number; // epoch seconds
+  day_volume?: number;
+}
+
+interface SearchResult {
+  symbol: string;
+  instrument_name?: string;
+  exchange?: string;
+  instrument_type?: string;
+  currency?: string;
+}
+
+interface ApiResponse {
+  values?: TimeSeriesValue[];
+  status?: string;
+  message?: string;
+}
+
+// Reference data, so it is fetched without a key and costs no credits
+async function searchTwelveData(query: string, { fetchReferenceJson }: ProviderContext): Promise<SymbolMatch[]> {
+  const url = `https://api.twelvedata.com/symbol_search?symbol=${encodeURIComponent(query)}&outputsize=20`;
+  const data = await fetchReferenceJson(url) as { data?: SearchResult[]; status?: string; message?: string };
+  if (data.status === 'error') {
+    throw new Error(data.message || 'API error');
+  }
+  return (data.data ?? []).map((result): SymbolMatch => ({
+    symbol: result.symbol,
+    name: result.instrument_name ?? '',
+    exchange: result.exchange ?? '',
+    type: result.instrument_type ?? '',
+    currency: result.currency ?? '',
+  }));
+}
+
+export const twelveDataProvider: MarketDataProvider = {
+  id: 'twelvedata',
+  name: 'Twelve Data',
+  requiresApiKey: true,
+  hosts: ['https://api.twelvedata.com', 'wss://ws.twelvedata.com'],
+  symbolHint: 'e.g., XAU/USD, EUR/USD, AAPL',
+  limits: { perMinute: 8, perDay: 800 },
+
+  async fetchBars({ symbol, interval, outputsize, before }, { fetchJson }) {
+    // Always request UTC so timestamps can be parsed unambiguously
+    let url = `https://api.twelvedata.com/time_series?symbol=${encodeURIComponent(symbol)}&interval=${interval}&outputsize=${outputsize}&timezone=UTC&apikey=${API_KEY_PLACEHOLDER}`;
+    if (before !== undefined) {
+      // end_date is inclusive and read in the requested (UTC) zone
+      const endDate = new Date(before - 1000).toISOString().slice(0, 19).replace('T', ' ');
+      url += `&end_date=${encodeURIComponent(endDate)}`;
+    }
+    const data = await fetchJson(url) as ApiResponse;
+
+    if (data.status === 'error') {
+      throw new Error(data.message || 'API error');
+    }
+
+    if (!data.values || data.values.length === 0) {
+      throw new Error('No data received');
+    }
+
+    return data.values
+      .map((v): Bar => ({
+        time: zonedDateTimeToEpoch(v.datetime, 'UTC'),
+        open: parseFloat(v.open),
+        high: parseFloat(v.high),
+        low: parseFloat(v.low),
+        close: parseFloat(v.close),
+        volume: parseFloat(v.volume ?? '0') || 0,
+      }))
+      .filter((bar) => before === undefined || bar.time < before)
+      .reverse();
+  },
+
+  searchSymbols: (query, context) => searchTwelveData(query, context),
+
+  // Only the currency: tick sizes aren't published
+  async getInstrumentInfo(symbol, context) {
+    const wanted = symbol.trim().toUpperCase();
+    const match = (await searchTwelveData(symbol, context)).find((m) => m.symbol.toUpperCase() === wanted);
+    return match?.currency ? { currency: match.currency } : {};
+  },
+
+  stream: {
+    url: () => `wss://ws.twelvedata.com/v1/quotes/price?apikey=${API_KEY_PLACEHOLDER}`,
+    subscribeMessage: (symbol) => JSON.stringify({ action: 'subscribe', params: { symbols: symbol } }),
+    parseTick(message): Tick | null {
+      const event = message as PriceEvent;
+      if (event.event !== 'price' || typeof event.price !== 'number') return null;
+      return {
+        time: (event.timestamp ?? Date.now() / 1000) * 1000,
+        price: event.price,
+        volume: 0, // only a running day volume is reported
+      };
+    },
+  },
+};
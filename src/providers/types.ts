@@ -0,0 +1,83 @@
+export type ProviderId = 'twelvedata' | 'binance' | 'alphavantage' | 'file';
+
+// A single price bar, normalized across providers
+export interface Bar {
+  time: number; // bar open time, epoch ms (UTC)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // 0 when the provider reports none (e.g. FX)
+}
+
+// A single trade/quote from a streaming feed
+export interface Tick {
+  time: number; // epoch ms (UTC)
+  price: number;
+  volume: number;
+}
+
+export interface BarQuery {
+  symbol: string;
+  interval: string; // 1min, 5min, 15min, 30min, 1h, 4h, 1day
+  outputsize: number;
+  before?: number; // epoch ms: only bars older than this, for paging back through history
+}
+
+// A symbol search result; exchange, type and currency are blank when the provider doesn't say
+export interface SymbolMatch {
+  symbol: string; // as typed in the instrument field
+  name: string;
+  exchange: string;
+  type: string; // e.g. Common Stock, Physical Currency, Crypto
+  currency: string;
+}
+
+// How an instrument is priced, as far as the provider says; anything left out is guessed
+// from the symbol or set in settings
+export interface InstrumentInfo {
+  tickSize?: number; // smallest price step, e.g. 0.01
+  precision?: number; // decimals to show
+  currency?: string; // quote currency, e.g. USD, JPY, USDT
+}
+
+// Stands in for the API key in provider URLs. Keys never leave the main process, which
+// swaps this for the real key just before a request goes out.
+export const API_KEY_PLACEHOLDER = '__API_KEY__';
+
+// Transport supplied by the caller, so providers stay free of DOM/Node specifics
+export interface ProviderContext {
+  fetchJson: (url: string) => Promise<unknown>;
+  // Keyless reference data (symbol lists) that costs no API credits, outside the budget
+  fetchReferenceJson: (url: string) => Promise<unknown>;
+  readFile: (filePath: string) => Promise<string>;
+}
+
+// Request limits of a plan; 0 means no limit
+export interface ApiLimits {
+  perMinute: number;
+  perDay: number;
+}
+
+export interface PriceStreamSpec {
+  url: (symbol: string) => string;
+  // Sent once the socket opens, for feeds that subscribe after connecting
+  subscribeMessage?: (symbol: string) => string;
+  parseTick: (message: unknown) => Tick | null;
+}
+
+export interface MarketDataProvider {
+  id: ProviderId;
+  name: string;
+  requiresApiKey: boolean;
+  hosts: string[]; // origins the provider talks to; the main process only sends its key there
+  symbolHint: string;
+  limits?: ApiLimits; // free-tier limits, unless the user sets their plan's
+  // Returns bars sorted oldest first
+  fetchBars: (query: BarQuery, context: ProviderContext) => Promise<Bar[]>;
+  // Best matches first; providers without a lookup can't be searched or validated
+  searchSymbols?: (query: string, context: ProviderContext) => Promise<SymbolMatch[]>;
+  // Tick size, precision and currency of one symbol; empty when it isn't known
+  getInstrumentInfo?: (symbol: string, context: ProviderContext) => Promise<InstrumentInfo>;
+  stream?: PriceStreamSpec;
+}
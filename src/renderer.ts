@@ -1,149 +1,332 @@
 import './index.css';
 import { Chart, registerables } from 'chart.js';
+import {
+  applyTick,
+  getProvider,
+  mergeBars,
+  getStreamSpec,
+  type Bar,
+  type InstrumentInfo,
+  type ProviderContext,
+  type Tick,
+} from './providers';
+import {
+  CHART_TYPE_LABELS,
+  DEFAULT_CHART_TYPE,
+  isBarChartType,
+  isChartType,
+  toHeikinAshi,
+  type ChartType,
+} from './chartTypes';
+import {
+  createAlert,
+  getAlertLinePrices,
+  isAlertArmed,
+  normalizeAlerts,
+  type AlertLevel,
+  type PriceAlert,
+} from './alerts';
+import { closeAlertPopover, isAlertPopoverOpen, openAlertPopover } from './alertPopover';
+import {
+  INDICATOR_SPECS,
+  computeIndicator,
+  getWarmupBars,
+  normalizeIndicators,
+  type Indicator,
+  type IndicatorSeries,
+} from './indicators';
+import { renderIndicatorMenu } from './indicatorMenu';
+import {
+  createDrawing,
+  dragDrawing,
+  findDrawingAt,
+  indexToTime,
+  isDrawingType,
+  normalizeDrawings,
+  paintDrawings,
+  timeToIndex,
+  type Drawing,
+  type DrawingProjection,
+  type DrawingType,
+} from './drawings';
+import { closeNotePopover, isNotePopoverOpen, openNotePopover } from './notePopover';
+import {
+  alignCloses,
+  findCommonStart,
+  formatPercent,
+  normalizeComparisons,
+  toPercentChange,
+  type Comparison,
+} from './comparisons';
+import { renderComparisonMenu } from './comparisonMenu';
+import { renderProfileMenu } from './profileMenu';
+import type { ProfileList } from './profiles';
+import { openPriceStream, type PriceStream } from './stream';
+import type { BudgetStatus, RequestPriority } from './apiBudget';
+import type { ProviderKeys } from './keyStore';
+import {
+  ERROR_LABELS,
+  categorizeError,
+  formatAge,
+  getFreshness,
+  isRetryable,
+  type FetchError,
+} from './dataHealth';
+import { getIntervalMs } from './time';
+import { createPriceFormat, loadInstrumentInfo, resolveInstrumentInfo, type PriceFormat } from './priceFormat';
+import { hexToRgb, resolveTheme, toRgbTriplet, withAlpha, type Theme } from './themes';
+import { DEFAULT_SETTINGS, type Settings } from './settingsSchema';
+import {
+  SESSIONS,
+  buildTimeTicks,
+  findGaps,
+  formatBarTime,
+  getSessionRanges,
+  type SessionRange,
+} from './timeAxis';
 
 Chart.register(...registerables);
 
-interface Settings {
-  instrument: string;
-  apiKey: string;
-  timezone: string;
-  refreshInterval: number;
-  accentColor: string;
-  miniMode: boolean;
-  opacity: number;
-  alerts?: Record<string, number[]>; // instrument -> price alerts
-  timeframe?: string; // 1min, 5min, 15min, 30min, 1h, 4h, 1day
-}
-
-declare global {
-  interface Window {
-    electronAPI: {
-      getSettings: () => Promise<Settings>;
-      saveSettings: (settings: Settings) => Promise<boolean>;
-      openSettings: () => void;
-      onSettingsUpdated: (callback: (settings: Settings) => void) => void;
-      closeWindow: () => void;
-      minimizeWindow: () => void;
-      resizeWindow: (dx: number, dy: number, direction: string) => void;
-      getWindowBounds: () => Promise<{ x: number; y: number; width: number; height: number }>;
-      toggleMiniMode: (enableMini: boolean) => void;
-    };
-  }
-}
-
-interface TimeSeriesValue {
-  datetime: string;
-  close: string;
-}
-
-interface ApiResponse {
-  values?: TimeSeriesValue[];
-  status?: string;
-  message?: string;
-}
-
 let chart: Chart | null = null;
-let lastSuccessfulData: TimeSeriesValue[] | null = null;
-let settings: Settings = { instrument: 'XAU/USD', apiKey: '', timezone: '', refreshInterval: 60, accentColor: '#E0E8FF', miniMode: false, opacity: 0.75 };
+let lastSuccessfulData: Bar[] | null = null;
+// Bars as drawn (Heikin-Ashi transformed when that chart type is active)
+let displayBars: Bar[] = [];
+// Bars on screen by default; anything older is fetched only to warm up indicators
+// until the user zooms out or pans back
+const VISIBLE_BARS = 50;
+const MIN_VIEW_BARS = 10;
+const MAX_VIEW_BARS = 500;
+const HISTORY_PAGE_BARS = 300;
+let settings: Settings = { ...DEFAULT_SETTINGS };
 
 // Crosshair state
 let crosshairX: number | null = null;
 let crosshairY: number | null = null;
 let ctrlPressed = false;
 
-// Alert lines (stored as price values)
-let alertLines: number[] = [];
-let lastPrice: number | null = null;
-let draggingAlertIndex: number | null = null;
+// Alert rules for the current instrument
+let alerts: PriceAlert[] = [];
+
+// Edge markers for alerts outside the visible price range (hit areas, in canvas pixels)
+let offscreenMarkers: { x: number; y: number; width: number; height: number; price: number }[] = [];
+// Alert prices the user asked the y-axis to include; reset on instrument/timeframe change
+let pinnedAxisPrices: number[] = [];
+
+// Indicators for the current instrument, and the charts drawing those that need their own pane
+let indicators: Indicator[] = [];
+let paneCharts: Chart[] = [];
+let paneIndicatorIds = '';
+
+// Visible window: how many bars, and the time of the right-most one (null follows live data)
+let viewBars = VISIBLE_BARS;
+let viewEndTime: number | null = null;
+// Drag-to-pan in progress: where it started and the window's right edge at the time
+let panning: { startX: number; startEnd: number } | null = null;
+// Paging back through history; exhausted once the provider has nothing older
+let loadingHistory = false;
+let historyExhausted = false;
+
+// Breaks in trading and shaded sessions among the visible bars, found when the chart updates
+let gapIndices: number[] = [];
+let sessionRanges: SessionRange[] = [];
+
+// Symbols compared against the current instrument, their bars for the current timeframe,
+// and why fetching one failed
+let comparisons: Comparison[] = [];
+const comparisonBars = new Map<string, Bar[]>();
+const comparisonErrors = new Map<string, string>();
+let loadingComparisons = false;
+// With comparisons on, the y-axis shows percent change from this close instead of price
+let percentBase: number | null = null;
+
+// Drawings for the current instrument, the tool the next drag places, and the selected drawing
+let drawings: Drawing[] = [];
+let drawingTool: DrawingType | null = null;
+let selectedDrawingId: string | null = null;
+// A drawing being placed or dragged, as it was when the drag began; a null handle moves it whole
+let draggingDrawing: {
+  original: Drawing;
+  handle: number | null;
+  startX: number;
+  startY: number;
+  placing: boolean;
+  moved: boolean;
+} | null = null;
+
+// An alert line being dragged; moved tells a drag apart from a click (which opens the editor)
+let draggingAlert: { index: number; field: AlertLevel['field']; moved: boolean } | null = null;
 
 function saveAlerts() {
   if (!settings.alerts) settings.alerts = {};
-  settings.alerts[settings.instrument] = alertLines;
-  window.electronAPI.saveSettings(settings);
+  settings.alerts[settings.instrument] = alerts;
+  window.electronAPI.patchSettings({ alerts: settings.alerts });
 }
 
 function loadAlerts() {
-  alertLines = settings.alerts?.[settings.instrument] ?? [];
+  alerts = normalizeAlerts(settings.alerts?.[settings.instrument]);
 }
 
-// Audio context for alert sounds
-let audioCtx: AudioContext | null = null;
+function saveIndicators() {
+  settings.indicators = { ...settings.indicators, [settings.instrument]: indicators };
+  window.electronAPI.patchSettings({ indicators: settings.indicators });
+}
 
-function playAlertSound() {
-  if (!audioCtx) {
-    audioCtx = new AudioContext();
-  }
-  const oscillator = audioCtx.createOscillator();
-  const gainNode = audioCtx.createGain();
+function loadIndicators() {
+  indicators = normalizeIndicators(settings.indicators?.[settings.instrument]);
+}
 
-  oscillator.connect(gainNode);
-  gainNode.connect(audioCtx.destination);
+function saveComparisons() {
+  settings.comparisons = { ...settings.comparisons, [settings.instrument]: comparisons };
+  window.electronAPI.patchSettings({ comparisons: settings.comparisons });
+}
 
-  oscillator.frequency.value = 880;
-  oscillator.type = 'sine';
+function loadComparisons() {
+  comparisons = normalizeComparisons(settings.comparisons?.[settings.instrument]);
+}
 
-  gainNode.gain.setValueAtTime(0.3, audioCtx.currentTime);
-  gainNode.gain.exponentialRampToValueAtTime(0.01, audioCtx.currentTime + 0.3);
+function saveDrawings() {
+  settings.drawings = { ...settings.drawings, [settings.instrument]: drawings };
+  window.electronAPI.patchSettings({ drawings: settings.drawings });
+}
 
-  oscillator.start(audioCtx.currentTime);
-  oscillator.stop(audioCtx.currentTime + 0.3);
+function loadDrawings() {
+  drawings = normalizeDrawings(settings.drawings?.[settings.instrument]);
+  if (!drawings.some((d) => d.id === selectedDrawingId)) {
+    selectedDrawingId = null;
+  }
 }
 
-function showAlertNotification(alertPrice: number, direction: 'up' | 'down') {
-  const arrow = direction === 'up' ? '↑' : '↓';
-  const action = direction === 'up' ? 'crossed above' : 'crossed below';
-  new Notification(`${settings.instrument} ${arrow}`, {
-    body: `Price ${action} $${alertPrice.toFixed(2)}`,
-    silent: true, // We play our own sound
-  });
+// Tick size, precision and currency of the instrument shown, as the provider reports them
+let providerInstrumentInfo: InstrumentInfo = {};
+
+// Settings override the provider; without a precision, decimals follow the last price
+function getPriceFormat(): PriceFormat {
+  const info = resolveInstrumentInfo(
+    settings.instrument,
+    providerInstrumentInfo,
+    settings.instrumentInfo?.[settings.instrument],
+  );
+  return createPriceFormat(info, lastSuccessfulData?.[lastSuccessfulData.length - 1]?.close);
 }
 
-function checkPriceAlerts(currentPrice: number) {
-  if (lastPrice === null) {
-    lastPrice = currentPrice;
-    return;
-  }
+function formatPrice(price: number, withCurrency = true): string {
+  return getPriceFormat().format(price, withCurrency);
+}
 
-  for (const alertPrice of alertLines) {
-    const crossedFromBelow = lastPrice < alertPrice && currentPrice >= alertPrice;
-    const crossedFromAbove = lastPrice > alertPrice && currentPrice <= alertPrice;
+// Until the provider answers, prices are formatted from the symbol and settings alone
+function loadPriceDetails() {
+  const provider = getActiveProvider();
+  const instrument = settings.instrument;
+  providerInstrumentInfo = {};
+  loadInstrumentInfo(provider, instrument, createProviderContext('history', provider.id))
+    .then((info) => {
+      if (settings.instrument !== instrument || getActiveProvider() !== provider) return;
+      providerInstrumentInfo = info;
+      scheduleChartUpdate();
+    })
+    .catch(() => {
+      // Prices keep the format guessed from the symbol; the lookup is retried on the next load
+    });
+}
 
-    if (crossedFromBelow) {
-      playAlertSound();
-      showAlertNotification(alertPrice, 'up');
-    } else if (crossedFromAbove) {
-      playAlertSound();
-      showAlertNotification(alertPrice, 'down');
-    }
+// Y-axis values are prices, or percent from percentBase while comparing
+function priceToAxis(price: number): number {
+  return percentBase === null ? price : (price / percentBase - 1) * 100;
+}
+
+function axisToPrice(value: number): number {
+  return percentBase === null ? value : percentBase * (1 + value / 100);
+}
+
+// Lay out off-screen alert markers right-to-left along the top and bottom edges
+function drawOffscreenMarkers(
+  ctx: CanvasRenderingContext2D,
+  area: { left: number; right: number; top: number; bottom: number },
+  markers: { price: number; above: boolean; armed: boolean }[],
+) {
+  offscreenMarkers = [];
+  const height = 13;
+  const gap = 4;
+  const edgeX = { above: area.right, below: area.right };
+
+  const { alert } = getTheme();
+  ctx.save();
+  ctx.font = getCanvasFont();
+  ctx.textBaseline = 'middle';
+
+  // Nearest alerts first, so they sit closest to the price axis
+  const sorted = [
+    ...markers.filter((m) => m.above).sort((a, b) => a.price - b.price),
+    ...markers.filter((m) => !m.above).sort((a, b) => b.price - a.price),
+  ];
+  for (const marker of sorted) {
+    const side = marker.above ? 'above' : 'below';
+    const label = `${marker.above ? '▲' : '▼'} ${formatPrice(marker.price)}`;
+    const width = ctx.measureText(label).width + 8;
+    const x = edgeX[side] - width;
+    if (x < area.left) continue; // out of room; the nearest ones are already shown
+    const y = marker.above ? area.top : area.bottom - height;
+    edgeX[side] = x - gap;
+
+    ctx.fillStyle = withAlpha(alert, marker.armed ? 0.25 : 0.1);
+    ctx.fillRect(x, y, width, height);
+    ctx.fillStyle = withAlpha(alert, marker.armed ? 0.9 : 0.4);
+    ctx.fillText(label, x + 4, y + height / 2);
+
+    offscreenMarkers.push({ x, y, width, height, price: marker.price });
   }
 
-  lastPrice = currentPrice;
+  ctx.restore();
+}
+
+function findOffscreenMarkerAt(x: number, y: number) {
+  return offscreenMarkers.find((m) => x >= m.x && x <= m.x + m.width && y >= m.y && y <= m.y + m.height);
 }
 
 // Crosshair and alert lines plugin
 const crosshairPlugin = {
   id: 'crosshair',
   afterDraw(chartInstance: Chart) {
+    if (chartInstance !== chart) return; // not the indicator panes
     const { ctx, chartArea, scales } = chartInstance;
     const { left, right, top, bottom } = chartArea;
     const yScale = scales.y;
+    const theme = getTheme();
+
+    // Draw alert lines (always visible); disarmed ones are dimmed.
+    // Lines outside the range become clickable markers on the top/bottom edge.
+    const now = Date.now();
+    const markers: { price: number; above: boolean; armed: boolean }[] = [];
+    for (const alert of alerts) {
+      const armed = isAlertArmed(alert, now);
+      for (const line of getAlertLinePrices(alert)) {
+        const y = yScale.getPixelForValue(priceToAxis(line.price));
+        if (y < top || y > bottom) {
+          markers.push({ price: line.price, above: y < top, armed });
+          continue;
+        }
 
-    // Draw alert lines (always visible)
-    for (const alertPrice of alertLines) {
-      const y = yScale.getPixelForValue(alertPrice);
-      if (y >= top && y <= bottom) {
         ctx.save();
-        ctx.setLineDash([6, 4]);
-        ctx.strokeStyle = 'rgba(255, 100, 100, 0.5)';
+        ctx.setLineDash(line.field === null ? [2, 4] : [6, 4]);
+        ctx.strokeStyle = withAlpha(theme.alert, armed ? 0.5 : 0.2);
         ctx.lineWidth = 1;
         ctx.beginPath();
         ctx.moveTo(left, y);
         ctx.lineTo(right, y);
         ctx.stroke();
+
+        if (alert.note) {
+          ctx.fillStyle = withAlpha(theme.alert, armed ? 0.7 : 0.3);
+          ctx.font = getCanvasFont();
+          ctx.textBaseline = 'bottom';
+          ctx.fillText(alert.note, left + 4, y - 2);
+        }
         ctx.restore();
       }
     }
 
+    drawOffscreenMarkers(ctx, chartArea, markers);
+
     // Draw crosshair (only when Ctrl is pressed)
     if (!ctrlPressed || crosshairX === null || crosshairY === null) return;
 
@@ -152,7 +335,7 @@ const crosshairPlugin = {
 
     ctx.save();
     ctx.setLineDash([4, 4]);
-    ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+    ctx.strokeStyle = withAlpha(theme.crosshair, 0.15);
     ctx.lineWidth = 1;
 
     // Vertical line
@@ -171,39 +354,241 @@ const crosshairPlugin = {
   },
 };
 
-Chart.register(crosshairPlugin);
+// Draws candlesticks / OHLC bars; the line dataset stays invisible in these modes
+const candlesPlugin = {
+  id: 'candles',
+  afterDatasetsDraw(chartInstance: Chart) {
+    const chartType = getChartType();
+    if (chartInstance !== chart || !isBarChartType(chartType) || displayBars.length === 0) return;
+
+    const { ctx, chartArea, scales } = chartInstance;
+    const { left, right, top, bottom } = chartArea;
+    const slotWidth = (right - left) / displayBars.length;
+    const bodyWidth = Math.max(1, slotWidth * 0.6);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(left, top, right - left, bottom - top);
+    ctx.clip();
+    ctx.lineWidth = 1;
+
+    displayBars.forEach((bar, i) => {
+      const x = Math.round(scales.x.getPixelForValue(i)) + 0.5;
+      const yOpen = scales.y.getPixelForValue(priceToAxis(bar.open));
+      const yHigh = scales.y.getPixelForValue(priceToAxis(bar.high));
+      const yLow = scales.y.getPixelForValue(priceToAxis(bar.low));
+      const yClose = scales.y.getPixelForValue(priceToAxis(bar.close));
+      const color = bar.close >= bar.open ? getUpColor() : getDownColor();
+
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+
+      // High-low wick
+      ctx.beginPath();
+      ctx.moveTo(x, yHigh);
+      ctx.lineTo(x, yLow);
+      ctx.stroke();
+
+      if (chartType === 'ohlc') {
+        // Open tick on the left, close tick on the right
+        ctx.beginPath();
+        ctx.moveTo(x - bodyWidth / 2, yOpen);
+        ctx.lineTo(x, yOpen);
+        ctx.moveTo(x, yClose);
+        ctx.lineTo(x + bodyWidth / 2, yClose);
+        ctx.stroke();
+      } else {
+        const bodyTop = Math.min(yOpen, yClose);
+        const bodyHeight = Math.max(1, Math.abs(yClose - yOpen));
+        ctx.fillRect(x - bodyWidth / 2, bodyTop, bodyWidth, bodyHeight);
+      }
+    });
+
+    ctx.restore();
+  },
+};
+
+// Drawings sit over the candles but under the alert lines and crosshair
+const drawingsPlugin = {
+  id: 'drawings',
+  afterDatasetsDraw(chartInstance: Chart) {
+    if (chartInstance !== chart || drawings.length === 0) return;
+    const projection = getDrawingProjection();
+    if (!projection) return;
+    paintDrawings(
+      chartInstance.ctx,
+      chartInstance.chartArea,
+      drawings,
+      projection,
+      selectedDrawingId,
+      (price) => formatPrice(price, false),
+    );
+  },
+};
+
+// Shades trading sessions and marks where the axis skips closed hours, under the price
+const sessionsPlugin = {
+  id: 'sessions',
+  beforeDatasetsDraw(chartInstance: Chart) {
+    if (chartInstance !== chart || displayBars.length === 0) return;
+    if (sessionRanges.length === 0 && gapIndices.length === 0) return;
+
+    const { ctx, chartArea, scales } = chartInstance;
+    const { left, right, top, bottom } = chartArea;
+    // Half a bar either side, so shading covers whole bars and gap lines fall between them
+    const halfSlot = (scales.x.getPixelForValue(1) - scales.x.getPixelForValue(0)) / 2 || (right - left) / 2;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(left, top, right - left, bottom - top);
+    ctx.clip();
+
+    ctx.font = getCanvasFont();
+    ctx.textBaseline = 'top';
+    for (const range of sessionRanges) {
+      const spec = SESSIONS[range.session];
+      const x1 = scales.x.getPixelForValue(range.start) - halfSlot;
+      const x2 = scales.x.getPixelForValue(range.end) + halfSlot;
+      ctx.fillStyle = withAlpha(spec.color, 0.08);
+      ctx.fillRect(x1, top, x2 - x1, bottom - top);
+      if (x2 - x1 > 40) {
+        ctx.fillStyle = withAlpha(spec.color, 0.6);
+        ctx.fillText(spec.label, Math.max(x1, left) + 3, top + 2);
+      }
+    }
+
+    ctx.strokeStyle = withAlpha(getTheme().grid, 0.15);
+    ctx.lineWidth = 1;
+    ctx.setLineDash([2, 3]);
+    for (const index of gapIndices) {
+      const x = Math.round(scales.x.getPixelForValue(index) - halfSlot) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, top);
+      ctx.lineTo(x, bottom);
+      ctx.stroke();
+    }
+
+    ctx.restore();
+  },
+};
+
+Chart.register(crosshairPlugin, candlesPlugin, drawingsPlugin, sessionsPlugin);
 
 const titleEl = document.querySelector('.title') as HTMLSpanElement;
 const priceEl = document.getElementById('title-price') as HTMLSpanElement;
 const changeEl = document.getElementById('title-change') as HTMLSpanElement;
 const statusEl = document.getElementById('status') as HTMLDivElement;
+const budgetEl = document.getElementById('budget') as HTMLDivElement;
+const dataBadgeEl = document.getElementById('data-badge') as HTMLSpanElement;
 const closeBtn = document.getElementById('close') as HTMLButtonElement;
 const minimizeBtn = document.getElementById('minimize') as HTMLButtonElement;
 const settingsBtn = document.getElementById('settings') as HTMLButtonElement;
+const newWidgetBtn = document.getElementById('new-widget') as HTMLButtonElement;
 const miniToggleBtn = document.getElementById('mini-toggle') as HTMLButtonElement;
 const canvas = document.getElementById('chart') as HTMLCanvasElement;
 const widgetEl = document.querySelector('.widget') as HTMLDivElement;
+const ghostHandleEl = document.getElementById('ghost-handle') as HTMLDivElement;
 const chartContainerEl = document.querySelector('.chart-container') as HTMLDivElement;
+const paneResizerEl = document.querySelector('.pane-resizer') as HTMLDivElement;
+const indicatorPanesEl = document.querySelector('.indicator-panes') as HTMLDivElement;
 const iconCollapse = miniToggleBtn.querySelector('.icon-collapse') as SVGElement;
 const iconExpand = miniToggleBtn.querySelector('.icon-expand') as SVGElement;
 const timeframeEl = document.querySelector('.timeframe') as HTMLSpanElement;
 const timeframeDropdown = document.querySelector('.timeframe-dropdown') as HTMLDivElement;
 const timeframeOptions = document.querySelectorAll('.timeframe-option') as NodeListOf<HTMLDivElement>;
+const watchlistDropdown = document.querySelector('.watchlist-dropdown') as HTMLDivElement;
+const chartTypeEl = document.querySelector('.chart-type') as HTMLSpanElement;
+const chartTypeDropdown = document.querySelector('.chart-type-dropdown') as HTMLDivElement;
+const chartTypeOptions = document.querySelectorAll('.chart-type-option') as NodeListOf<HTMLDivElement>;
+const indicatorToggleEl = document.querySelector('.indicator-toggle') as HTMLSpanElement;
+const indicatorDropdown = document.querySelector('.indicator-dropdown') as HTMLDivElement;
+const drawingToggleEl = document.querySelector('.drawing-toggle') as HTMLSpanElement;
+const drawingDropdown = document.querySelector('.drawing-dropdown') as HTMLDivElement;
+const drawingOptions = document.querySelectorAll('.drawing-option') as NodeListOf<HTMLDivElement>;
+const compareToggleEl = document.querySelector('.compare-toggle') as HTMLSpanElement;
+const compareDropdown = document.querySelector('.compare-dropdown') as HTMLDivElement;
+const comparisonLegendEl = document.getElementById('comparison-legend') as HTMLSpanElement;
+const profileToggleEl = document.querySelector('.profile-toggle') as HTMLSpanElement;
+const profileDropdown = document.querySelector('.profile-dropdown') as HTMLDivElement;
+
+// Title bar dropdowns; opening one closes the rest
+const dropdowns = [
+  watchlistDropdown,
+  timeframeDropdown,
+  chartTypeDropdown,
+  indicatorDropdown,
+  drawingDropdown,
+  compareDropdown,
+  profileDropdown,
+];
+
+function toggleDropdown(dropdown: HTMLDivElement) {
+  dropdowns.forEach((other) => {
+    if (other !== dropdown) other.classList.remove('open');
+  });
+  dropdown.classList.toggle('open');
+}
 
 closeBtn.addEventListener('click', () => window.electronAPI.closeWindow());
 minimizeBtn.addEventListener('click', () => window.electronAPI.minimizeWindow());
 settingsBtn.addEventListener('click', () => window.electronAPI.openSettings());
+newWidgetBtn.addEventListener('click', () => window.electronAPI.newWidget());
+
+// Watchlist switcher toggle
+titleEl.addEventListener('click', (e) => {
+  e.stopPropagation();
+  renderWatchlist();
+  toggleDropdown(watchlistDropdown);
+});
 
 // Timeframe dropdown toggle
 timeframeEl.addEventListener('click', (e) => {
   e.stopPropagation();
-  timeframeDropdown.classList.toggle('open');
+  toggleDropdown(timeframeDropdown);
   updateTimeframeActiveState();
 });
 
-// Close dropdown when clicking outside
-document.addEventListener('click', () => {
-  timeframeDropdown.classList.remove('open');
+// Chart type dropdown toggle
+chartTypeEl.addEventListener('click', (e) => {
+  e.stopPropagation();
+  toggleDropdown(chartTypeDropdown);
+  updateChartTypeActiveState();
+});
+
+// Indicator dropdown toggle
+indicatorToggleEl.addEventListener('click', (e) => {
+  e.stopPropagation();
+  renderIndicators();
+  toggleDropdown(indicatorDropdown);
+});
+
+// Drawing tools dropdown toggle
+drawingToggleEl.addEventListener('click', (e) => {
+  e.stopPropagation();
+  toggleDropdown(drawingDropdown);
+});
+
+// Comparison dropdown toggle
+compareToggleEl.addEventListener('click', (e) => {
+  e.stopPropagation();
+  renderComparisons();
+  toggleDropdown(compareDropdown);
+});
+
+// Layout profile dropdown toggle
+profileToggleEl.addEventListener('click', (e) => {
+  e.stopPropagation();
+  renderProfiles();
+  toggleDropdown(profileDropdown);
+});
+
+// Close dropdowns when clicking outside (the chart closes the alert editor itself, on mousedown)
+document.addEventListener('click', (e) => {
+  if (e.target !== canvas) {
+    closeAlertPopover();
+    closeNotePopover();
+  }
+  dropdowns.forEach((dropdown) => dropdown.classList.remove('open'));
 });
 
 // Prevent dropdown clicks from closing it
@@ -211,6 +596,239 @@ timeframeDropdown.addEventListener('click', (e) => {
   e.stopPropagation();
 });
 
+chartTypeDropdown.addEventListener('click', (e) => {
+  e.stopPropagation();
+});
+
+watchlistDropdown.addEventListener('click', (e) => {
+  e.stopPropagation();
+});
+
+indicatorDropdown.addEventListener('click', (e) => {
+  e.stopPropagation();
+});
+
+drawingDropdown.addEventListener('click', (e) => {
+  e.stopPropagation();
+});
+
+compareDropdown.addEventListener('click', (e) => {
+  e.stopPropagation();
+});
+
+profileDropdown.addEventListener('click', (e) => {
+  e.stopPropagation();
+});
+
+// Typing a symbol shouldn't trigger the keyboard shortcuts
+compareDropdown.addEventListener('keydown', (e) => {
+  e.stopPropagation();
+});
+
+profileDropdown.addEventListener('keydown', (e) => {
+  e.stopPropagation();
+});
+
+// Typing parameters shouldn't trigger the [ / ] shortcuts
+indicatorDropdown.addEventListener('keydown', (e) => {
+  e.stopPropagation();
+});
+
+function renderIndicators() {
+  renderIndicatorMenu(indicatorDropdown, indicators, (updated) => {
+    const previousWarmup = getWarmupBars(indicators);
+    indicators = updated;
+    saveIndicators();
+    renderIndicators();
+    applyIndicatorChange(previousWarmup);
+  });
+}
+
+// Longer warm-ups need more history than we have, so refetch; otherwise just redraw
+function applyIndicatorChange(previousWarmup: number) {
+  if (getWarmupBars(indicators) > previousWarmup) {
+    refreshData();
+  } else if (lastSuccessfulData) {
+    updateChart(lastSuccessfulData);
+  }
+}
+
+// Arms a tool for the next drag on the chart (picking the armed one again disarms it)
+function selectDrawingTool(tool: DrawingType | null) {
+  drawingTool = tool;
+  drawingToggleEl.classList.toggle('active', tool !== null);
+  drawingOptions.forEach((opt) => {
+    opt.classList.toggle('active', tool !== null && opt.dataset.value === tool);
+  });
+}
+
+drawingOptions.forEach((opt) => {
+  opt.addEventListener('click', () => {
+    drawingDropdown.classList.remove('open');
+    const value = opt.dataset.value;
+    if (isDrawingType(value)) {
+      selectDrawingTool(drawingTool === value ? null : value);
+      return;
+    }
+    // Clear drawings
+    drawings = [];
+    selectedDrawingId = null;
+    saveDrawings();
+    chart?.draw();
+  });
+});
+
+// Saved layouts, as last reported by the main process, and the outcome of the last
+// export or import (or why it failed), shown in the menu
+let profileList: ProfileList = { profiles: [], active: null };
+let profileStatus = '';
+
+function renderProfiles() {
+  const active = profileList.profiles.find((p) => p.id === profileList.active);
+  profileToggleEl.title = active ? `Layout profile: ${active.name}` : 'Layout profiles';
+  renderProfileMenu(profileDropdown, profileList, {
+    // This window is replaced by the profile's widgets
+    switchTo: (id) => window.electronAPI.switchProfile(id),
+    save: (name) => runProfileAction(() => window.electronAPI.saveProfile(name)),
+    exportProfile: (id) => runProfileAction(() => window.electronAPI.exportProfile(id)),
+    importProfile: () => runProfileAction(() => window.electronAPI.importProfile()),
+    deleteProfile: (id) => runProfileAction(() => window.electronAPI.deleteProfile(id)),
+  }, profileStatus);
+}
+
+async function runProfileAction(action: () => Promise<string | void>) {
+  try {
+    profileStatus = (await action()) || '';
+  } catch (error) {
+    profileStatus = error instanceof Error ? error.message : String(error);
+  }
+  renderProfiles();
+}
+
+function renderComparisons() {
+  const candidates = getWatchlist().filter((symbol) => symbol !== settings.instrument);
+  renderComparisonMenu(compareDropdown, comparisons, candidates, (updated) => {
+    comparisons = updated;
+    saveComparisons();
+    renderComparisons();
+    applyComparisonChange();
+  });
+}
+
+// Forget bars of removed symbols, redraw, and fetch the ones just added
+function applyComparisonChange() {
+  for (const symbol of [...comparisonBars.keys()]) {
+    if (!comparisons.some((c) => c.symbol === symbol)) {
+      comparisonBars.delete(symbol);
+      comparisonErrors.delete(symbol);
+    }
+  }
+  if (lastSuccessfulData) {
+    updateChart(lastSuccessfulData);
+  }
+  refreshComparisons(true);
+}
+
+// Comparison bars belong to one instrument and timeframe
+function resetComparisonData() {
+  comparisonBars.clear();
+  comparisonErrors.clear();
+}
+
+function renderComparisonLegend(changes: Map<string, number | null>) {
+  const items = comparisons.map((comparison) => {
+    const item = document.createElement('span');
+    item.className = 'comparison-item';
+    item.style.color = comparison.color;
+    const change = changes.get(comparison.symbol);
+    const error = comparisonErrors.get(comparison.symbol);
+    item.classList.toggle('error', error !== undefined);
+    item.title = error ?? `${comparison.symbol}, change since the first visible bar`;
+    item.textContent = change === null || change === undefined
+      ? comparison.symbol
+      : `${comparison.symbol} ${formatPercent(change)}`;
+
+    const removeBtn = document.createElement('button');
+    removeBtn.className = 'comparison-remove';
+    removeBtn.title = 'Remove comparison';
+    removeBtn.textContent = '×';
+    removeBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      comparisons = comparisons.filter((c) => c.symbol !== comparison.symbol);
+      saveComparisons();
+      applyComparisonChange();
+    });
+    item.appendChild(removeBtn);
+    return item;
+  });
+  comparisonLegendEl.replaceChildren(...items);
+}
+
+function getWatchlist(): string[] {
+  return settings.watchlist?.length ? settings.watchlist : [settings.instrument];
+}
+
+function renderWatchlist() {
+  const current = settings.instrument;
+  const items: HTMLElement[] = getWatchlist().map((instrument) => {
+    const option = document.createElement('div');
+    option.className = 'watchlist-option';
+    option.classList.toggle('active', instrument === current);
+    option.textContent = instrument;
+    option.addEventListener('click', () => selectInstrument(instrument));
+
+    const removeBtn = document.createElement('button');
+    removeBtn.className = 'watchlist-remove';
+    removeBtn.title = 'Remove from watchlist';
+    removeBtn.textContent = '×';
+    removeBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      removeFromWatchlist(instrument);
+    });
+    option.appendChild(removeBtn);
+    return option;
+  });
+
+  if (!settings.watchlist?.includes(current)) {
+    const addOption = document.createElement('div');
+    addOption.className = 'watchlist-option watchlist-add';
+    addOption.textContent = `+ Add ${current}`;
+    addOption.addEventListener('click', () => {
+      settings.watchlist = [...(settings.watchlist ?? []), current];
+      window.electronAPI.patchSettings({ watchlist: settings.watchlist });
+      renderWatchlist();
+    });
+    items.push(addOption);
+  }
+
+  watchlistDropdown.replaceChildren(...items);
+}
+
+function removeFromWatchlist(instrument: string) {
+  settings.watchlist = (settings.watchlist ?? []).filter((i) => i !== instrument);
+  window.electronAPI.patchSettings({ watchlist: settings.watchlist });
+  renderWatchlist();
+}
+
+function selectInstrument(instrument: string) {
+  watchlistDropdown.classList.remove('open');
+  if (instrument === settings.instrument) return;
+
+  settings.instrument = instrument;
+  window.electronAPI.patchSettings({ instrument });
+  applyInstrumentChange();
+}
+
+// Step through the watchlist, wrapping at either end
+function cycleInstrument(step: number) {
+  const list = getWatchlist();
+  const index = list.indexOf(settings.instrument);
+  const next = list[(index + step + list.length) % list.length];
+  if (next) {
+    selectInstrument(next);
+  }
+}
+
 function updateTimeframeActiveState() {
   const current = getTimeframe();
   timeframeOptions.forEach((opt) => {
@@ -219,21 +837,27 @@ function updateTimeframeActiveState() {
 }
 
 function selectTimeframe(value: string) {
+  // Remembered per instrument; the last pick also becomes the default for new ones
   settings.timeframe = value;
+  settings.timeframes = { ...settings.timeframes, [settings.instrument]: value };
   timeframeEl.textContent = value;
   timeframeDropdown.classList.remove('open');
-  window.electronAPI.saveSettings(settings);
+  window.electronAPI.patchSettings({ timeframe: value, timeframes: settings.timeframes });
+  resetTimeframeData();
+  refreshData();
+}
 
-  // Clear cached data and refetch with new timeframe
+// Bars of the old timeframe are dropped before fetching the new one (alerts are kept)
+function resetTimeframeData() {
   lastSuccessfulData = null;
-  alertLines = [];
-  lastPrice = null;
-  saveAlerts();
+  pinnedAxisPrices = [];
+  resetView();
+  resetFreshness();
+  resetComparisonData();
   if (chart) {
     chart.destroy();
     chart = null;
   }
-  refreshData();
 }
 
 // Timeframe option click handlers
@@ -246,6 +870,38 @@ timeframeOptions.forEach((opt) => {
   });
 });
 
+function updateChartTypeActiveState() {
+  const current = getChartType();
+  chartTypeOptions.forEach((opt) => {
+    opt.classList.toggle('active', opt.dataset.value === current);
+  });
+}
+
+function selectChartType(value: ChartType) {
+  settings.chartType = value;
+  chartTypeEl.textContent = CHART_TYPE_LABELS[value];
+  chartTypeDropdown.classList.remove('open');
+  window.electronAPI.patchSettings({ chartType: value });
+
+  // Dataset styling differs per type, so rebuild the chart from the data we have
+  if (chart) {
+    chart.destroy();
+    chart = null;
+  }
+  if (lastSuccessfulData) {
+    updateChart(lastSuccessfulData);
+  }
+}
+
+chartTypeOptions.forEach((opt) => {
+  opt.addEventListener('click', () => {
+    const value = opt.dataset.value;
+    if (isChartType(value)) {
+      selectChartType(value);
+    }
+  });
+});
+
 function setMiniMode(enabled: boolean, saveState = true) {
   settings.miniMode = enabled;
   window.electronAPI.toggleMiniMode(enabled);
@@ -258,14 +914,14 @@ function setMiniMode(enabled: boolean, saveState = true) {
     settingsBtn.style.display = 'none';
   } else {
     widgetEl.classList.remove('mini-mode');
-    chartContainerEl.style.display = 'block';
+    chartContainerEl.style.display = 'flex';
     iconCollapse.style.display = 'block';
     iconExpand.style.display = 'none';
     settingsBtn.style.display = 'flex';
   }
 
   if (saveState) {
-    window.electronAPI.saveSettings(settings);
+    window.electronAPI.patchSettings({ miniMode: enabled });
   }
 }
 
@@ -273,6 +929,46 @@ miniToggleBtn.addEventListener('click', () => {
   setMiniMode(!settings.miniMode);
 });
 
+// The tray menu acts through the renderer, so the change is applied and saved as if clicked
+window.electronAPI.onSetMiniMode((enabled) => {
+  if (enabled !== settings.miniMode) setMiniMode(enabled);
+});
+window.electronAPI.onSelectInstrument((instrument) => selectInstrument(instrument));
+
+// Ghost mode lets clicks through to the desktop; only the handle takes the mouse back
+function setGhostMode(enabled: boolean, saveState = true) {
+  settings.ghostMode = enabled;
+  window.electronAPI.setIgnoreMouseEvents(enabled);
+  document.body.classList.toggle('ghost-mode', enabled);
+  ghostHandleEl.classList.remove('revealed');
+  crosshairX = null;
+  crosshairY = null;
+  chart?.draw();
+  updateTheme();
+
+  if (saveState) {
+    window.electronAPI.patchSettings({ ghostMode: enabled });
+  }
+}
+
+ghostHandleEl.addEventListener('mouseenter', () => {
+  if (!settings.ghostMode) return;
+  ghostHandleEl.classList.add('revealed');
+  window.electronAPI.setIgnoreMouseEvents(false);
+});
+
+ghostHandleEl.addEventListener('mouseleave', () => {
+  if (!settings.ghostMode) return;
+  ghostHandleEl.classList.remove('revealed');
+  window.electronAPI.setIgnoreMouseEvents(true);
+});
+
+ghostHandleEl.addEventListener('click', () => setGhostMode(false));
+
+window.electronAPI.onSetGhostMode((enabled) => {
+  if (enabled !== !!settings.ghostMode) setGhostMode(enabled);
+});
+
 // Resize handles
 document.querySelectorAll('.resize-handle').forEach((handle) => {
   handle.addEventListener('mousedown', (e) => {
@@ -307,124 +1003,666 @@ function getTimezone(): string {
   return settings.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
 }
 
-function hexToRgb(hex: string): { r: number; g: number; b: number } {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result ? {
-    r: parseInt(result[1], 16),
-    g: parseInt(result[2], 16),
-    b: parseInt(result[3], 16)
-  } : { r: 224, g: 232, b: 255 }; // fallback
+function getTheme(): Theme {
+  return resolveTheme(settings);
+}
+
+// Labels drawn straight onto the canvas, a size below the axis ticks
+function getCanvasFont(): string {
+  const theme = getTheme();
+  return `${theme.fontSize - 1}px ${theme.font}`;
 }
 
 function getAccentRgba(alpha: number): string {
-  const { r, g, b } = hexToRgb(settings.accentColor);
-  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+  return withAlpha(getTheme().accent, alpha);
 }
 
 const TIMEFRAMES = ['1min', '5min', '15min', '30min', '1h', '4h', '1day'] as const;
 
 function getTimeframe(): string {
-  return settings.timeframe && TIMEFRAMES.includes(settings.timeframe as any)
-    ? settings.timeframe
+  const timeframe = settings.timeframes?.[settings.instrument] ?? settings.timeframe;
+  return timeframe && TIMEFRAMES.includes(timeframe as any)
+    ? timeframe
     : '5min';
 }
 
-async function fetchPriceData(): Promise<TimeSeriesValue[] | null> {
-  const timezone = getTimezone();
-  const symbol = encodeURIComponent(settings.instrument);
-  const interval = getTimeframe();
-  const url = `https://api.twelvedata.com/time_series?symbol=${symbol}&interval=${interval}&outputsize=50&timezone=${encodeURIComponent(timezone)}&apikey=${settings.apiKey}`;
+function getChartType(): ChartType {
+  return isChartType(settings.chartType) ? settings.chartType : DEFAULT_CHART_TYPE;
+}
 
-  try {
-    const response = await fetch(url);
-    const data: ApiResponse = await response.json();
+function getUpColor(): string {
+  return getTheme().up;
+}
 
-    if (data.status === 'error') {
-      throw new Error(data.message || 'API error');
-    }
+function getDownColor(): string {
+  return getTheme().down;
+}
 
-    if (data.values && data.values.length > 0) {
-      lastSuccessfulData = data.values;
-      statusEl.textContent = '';
-      return data.values;
-    }
+function getActiveProvider() {
+  return getProvider(settings.providers?.[settings.instrument]);
+}
+
+// Which providers have a key, as last reported by the main process (the keys stay there)
+let apiKeys: Record<string, ProviderKeys> = {};
+
+function hasApiKey(providerId = getActiveProvider().id): boolean {
+  return Boolean(apiKeys[providerId]?.active);
+}
+
+// Provider transport for the active provider; the main process waits for API budget and
+// fills in the key
+function createProviderContext(priority: RequestPriority, providerId = getActiveProvider().id): ProviderContext {
+  return {
+    fetchJson: (url) => window.electronAPI.providerFetch(providerId, priority, url),
+    fetchReferenceJson: (url) => window.electronAPI.providerFetchReference(providerId, url),
+    readFile: (filePath) => window.electronAPI.readDataFile(filePath),
+  };
+}
+
+// Visible bars plus enough older ones for the indicators to settle
+function getFetchSize(): number {
+  return VISIBLE_BARS + getWarmupBars(indicators);
+}
+
+// API budget per provider, as last reported by the main process
+let budgetStatus: Record<string, BudgetStatus> = {};
+
+function updateBudgetDisplay() {
+  const provider = getActiveProvider();
+  const status = budgetStatus[provider.id];
+  if (!status || (!status.perDay && !status.perMinute)) {
+    budgetEl.textContent = '';
+    budgetEl.title = '';
+    return;
+  }
+
+  const { usedMinute, perMinute, usedDay, perDay, backoffUntil, queued } = status;
+  const remainingDay = perDay - usedDay;
+  if (backoffUntil) {
+    budgetEl.textContent = 'Rate limited, backing off';
+  } else if (perDay) {
+    budgetEl.textContent = `${remainingDay} credits left today`;
+  } else {
+    budgetEl.textContent = `${perMinute - usedMinute}/${perMinute} this minute`;
+  }
+  budgetEl.classList.toggle('low', backoffUntil !== null || (perDay > 0 && remainingDay < perDay * 0.1));
+  budgetEl.title = [
+    `${provider.name}: ${usedDay}${perDay ? `/${perDay}` : ''} requests today`,
+    perMinute ? `${usedMinute}/${perMinute} this minute` : '',
+    queued ? `${queued} waiting` : '',
+  ].filter(Boolean).join(', ');
+}
+
+window.electronAPI.onApiBudgetUpdated((status) => {
+  budgetStatus = status;
+  updateBudgetDisplay();
+});
+
+// When the provider last confirmed the data (a fetch or a tick); null while only cached data is shown
+let lastUpdatedAt: number | null = null;
+let lastFetchError: FetchError | null = null;
+// Failed refreshes retry sooner than the refresh interval, backing off up to it
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryAttempt = 0;
+const MIN_RETRY_MS = 5000;
+
+// Data counts as stale once older than a bar of the timeframe, but never within two
+// refresh cycles, so ordinary polling doesn't flap
+function getStaleAfterMs(): number {
+  return Math.max(getIntervalMs(getTimeframe()), 2 * (settings.refreshInterval || 60) * 1000);
+}
+
+function updateFreshness() {
+  const now = Date.now();
+  const freshness = getFreshness({
+    online: navigator.onLine,
+    hasData: lastSuccessfulData !== null,
+    lastUpdatedAt,
+    staleAfterMs: getStaleAfterMs(),
+    now,
+  });
+
+  widgetEl.classList.toggle('data-stale', freshness !== 'live');
+  dataBadgeEl.className = `data-badge ${freshness}`;
+  if (freshness === 'stale') {
+    dataBadgeEl.textContent = `Stale ${formatAge(now - lastUpdatedAt)}`;
+  } else if (freshness === 'offline') {
+    dataBadgeEl.textContent = 'Offline';
+  } else if (freshness === 'cached') {
+    dataBadgeEl.textContent = 'Cached';
+  } else {
+    dataBadgeEl.textContent = '';
+  }
+
+  const updated = lastUpdatedAt === null
+    ? 'Not updated yet'
+    : `Updated ${new Date(lastUpdatedAt).toLocaleTimeString('en-GB', { timeZone: getTimezone() })} (${formatAge(now - lastUpdatedAt)} ago)`;
+  priceEl.title = updated;
+  dataBadgeEl.title = lastFetchError
+    ? `${updated}. ${ERROR_LABELS[lastFetchError.category]}: ${lastFetchError.message}`
+    : updated;
+}
 
-    throw new Error('No data received');
+function scheduleRetry() {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  if (!lastFetchError) {
+    retryAttempt = 0;
+    return;
+  }
+  // Offline waits for the online event; auth and symbol errors wait for the user
+  if (!navigator.onLine || !isRetryable(lastFetchError)) return;
+
+  const delay = Math.min(MIN_RETRY_MS * 2 ** retryAttempt, (settings.refreshInterval || 60) * 1000);
+  retryAttempt++;
+  retryTimer = setTimeout(refreshData, delay);
+}
+
+// Forget the previous series' freshness and pending retries
+function resetFreshness() {
+  lastUpdatedAt = null;
+  lastFetchError = null;
+  retryAttempt = 0;
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  updateFreshness();
+}
+
+window.addEventListener('offline', updateFreshness);
+window.addEventListener('online', () => {
+  retryAttempt = 0;
+  updateFreshness();
+  refreshData();
+});
+setInterval(updateFreshness, 5000);
+
+// Bars kept per series, on disk too; more than is shown, so history paged in and indicator
+// warm-up survive restarts
+const MAX_CACHED_BARS = 3000;
+
+// The series the widget currently shows; used to key the bar cache and drop stale responses
+function getSeriesKey(): [provider: string, symbol: string, interval: string] {
+  return [getActiveProvider().id, settings.instrument, getTimeframe()];
+}
+
+function isCurrentSeries(key: [string, string, string]): boolean {
+  return getSeriesKey().join('|') === key.join('|');
+}
+
+// Only what's newer than the cache, plus its last bar (which may have been forming).
+// A cache too short or too old for one request is fetched in full instead.
+function getIncrementalSize(cached: Bar[] | null): number {
+  const size = getFetchSize();
+  if (!cached || cached.length < size) return size;
+  const last = cached[cached.length - 1];
+  const missing = Math.ceil((Date.now() - last.time) / getIntervalMs(getTimeframe())) + 1;
+  return Math.max(2, Math.min(missing, size));
+}
+
+// A fetch still waiting for API budget is shared rather than queued again
+let pendingFetch: { key: string; promise: Promise<Bar[] | null> } | null = null;
+
+function fetchPriceData(): Promise<Bar[] | null> {
+  const key = getSeriesKey().join('|');
+  if (pendingFetch?.key !== key) {
+    const promise = requestPriceData().finally(() => {
+      if (pendingFetch?.promise === promise) pendingFetch = null;
+    });
+    pendingFetch = { key, promise };
+  }
+  return pendingFetch.promise;
+}
+
+async function requestPriceData(): Promise<Bar[] | null> {
+  const provider = getActiveProvider();
+  const key = getSeriesKey();
+  const cached = lastSuccessfulData;
+  const outputsize = getIncrementalSize(cached);
+
+  try {
+    const bars = await provider.fetchBars({
+      symbol: settings.instrument,
+      interval: getTimeframe(),
+      outputsize,
+    }, createProviderContext('live'));
+    if (!isCurrentSeries(key)) return null; // switched away while loading
+
+    // A full fetch replaces the cache, so a gap between old and new bars can't linger
+    const merged = cached && outputsize < getFetchSize()
+      ? mergeBars(lastSuccessfulData ?? cached, bars, MAX_CACHED_BARS)
+      : bars;
+    lastSuccessfulData = merged;
+    lastUpdatedAt = Date.now();
+    lastFetchError = null;
+    window.electronAPI.writeBarCache(...key, merged);
+    statusEl.textContent = '';
+    return merged;
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    statusEl.textContent = `Error: ${message}`;
+    if (!isCurrentSeries(key)) return null;
+    lastFetchError = categorizeError(error);
+    statusEl.textContent = `${ERROR_LABELS[lastFetchError.category]}: ${lastFetchError.message}`;
     return lastSuccessfulData;
   }
 }
 
-function updateChart(values: TimeSeriesValue[]) {
-  const reversed = [...values].reverse();
-  const labels = reversed.map(v => {
-    // Extract HH:MM from datetime string (format: "YYYY-MM-DD HH:MM:SS")
-    const timePart = v.datetime.split(' ')[1];
-    return timePart ? timePart.slice(0, 5) : '';
+// Fetches a comparison symbol's bars for the current timeframe: incrementally once they
+// reach back as far as the instrument's, otherwise enough to cover its whole span
+async function fetchComparison(symbol: string, mainBars: Bar[]): Promise<void> {
+  const provider = getProvider(settings.providers?.[symbol]);
+  if (provider.requiresApiKey && !hasApiKey(provider.id)) {
+    throw new Error(`API key for ${provider.name} not configured`);
+  }
+
+  const interval = getTimeframe();
+  const key: [string, string, string] = [provider.id, symbol, interval];
+  const cached = comparisonBars.get(symbol) ?? await window.electronAPI.readBarCache(...key);
+  const covers = cached && cached.length > 0 && cached[0].time <= mainBars[0].time;
+  const since = covers ? cached[cached.length - 1].time : mainBars[0].time;
+  const outputsize = Math.min(MAX_CACHED_BARS, Math.max(2, Math.ceil((Date.now() - since) / getIntervalMs(interval)) + 1));
+
+  const bars = await provider.fetchBars({ symbol, interval, outputsize }, createProviderContext('live', provider.id));
+  // Switched timeframe or dropped the symbol while loading
+  if (getTimeframe() !== interval || !comparisons.some((c) => c.symbol === symbol)) return;
+
+  const merged = covers ? mergeBars(cached, bars, MAX_CACHED_BARS) : bars;
+  comparisonBars.set(symbol, merged);
+  window.electronAPI.writeBarCache(...key, merged);
+}
+
+// missingOnly fetches just the symbols without bars yet (after adding one)
+async function refreshComparisons(missingOnly = false) {
+  const mainBars = lastSuccessfulData;
+  if (!mainBars || mainBars.length === 0 || loadingComparisons) return;
+  const symbols = comparisons
+    .map((c) => c.symbol)
+    .filter((symbol) => !missingOnly || !comparisonBars.has(symbol));
+  if (symbols.length === 0) return;
+
+  const instrument = settings.instrument;
+  loadingComparisons = true;
+  try {
+    await Promise.all(symbols.map(async (symbol) => {
+      try {
+        await fetchComparison(symbol, mainBars);
+        comparisonErrors.delete(symbol);
+      } catch (error) {
+        const { category, message } = categorizeError(error);
+        comparisonErrors.set(symbol, `${ERROR_LABELS[category]}: ${message}`);
+      }
+    }));
+  } finally {
+    loadingComparisons = false;
+  }
+  if (settings.instrument === instrument && lastSuccessfulData) {
+    updateChart(lastSuccessfulData);
+  }
+}
+
+function toComparisonDataset(comparison: Comparison, data: (number | null)[]) {
+  return {
+    type: 'line' as const,
+    label: comparison.symbol,
+    data,
+    borderColor: comparison.color,
+    borderWidth: 1.5,
+    pointRadius: 0,
+    pointHoverRadius: 0,
+    tension: 0,
+    fill: false,
+    spanGaps: true,
+  };
+}
+
+// Bar labels carry the full timestamp for tooltips; the axis picks its own ticks
+function formatTimeLabel(time: number): string {
+  return formatBarTime(time, getTimezone(), getIntervalMs(getTimeframe()));
+}
+
+function createAreaGradient(): CanvasGradient {
+  const ctx = canvas.getContext('2d');
+  const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
+  gradient.addColorStop(0, getAccentRgba(0.15));
+  gradient.addColorStop(0.5, getAccentRgba(0.05));
+  gradient.addColorStop(1, getAccentRgba(0));
+  return gradient;
+}
+
+// Line dataset styling for the active chart type
+function getDatasetStyle() {
+  const chartType = getChartType();
+  if (isBarChartType(chartType)) {
+    return {
+      borderColor: 'transparent',
+      fill: false,
+      backgroundColor: 'transparent',
+      pointHoverRadius: 0,
+    };
+  }
+  return {
+    borderColor: getTheme().accent,
+    borderWidth: getTheme().lineWidth,
+    fill: chartType === 'area',
+    backgroundColor: chartType === 'area' ? createAreaGradient() : 'transparent',
+    pointHoverRadius: 4,
+  };
+}
+
+// Chart.js dataset for one indicator line, trimmed to the visible bars
+function toIndicatorDataset(series: IndicatorSeries, range: ViewRange) {
+  const data = series.values.slice(range.start, range.end);
+  if (series.style === 'histogram') {
+    const { r, g, b } = hexToRgb(series.color);
+    return {
+      type: 'bar' as const,
+      label: series.label,
+      data,
+      backgroundColor: `rgba(${r}, ${g}, ${b}, 0.6)`,
+      borderWidth: 0,
+    };
+  }
+  return {
+    type: 'line' as const,
+    label: series.label,
+    data,
+    borderColor: series.color,
+    borderWidth: series.style === 'guide' ? 1 : 1.5,
+    borderDash: series.style === 'line' ? [] : [4, 4],
+    pointRadius: 0,
+    pointHoverRadius: 0,
+    tension: 0,
+    fill: false,
+  };
+}
+
+function getIndicatorDatasets(pane: 'overlay' | 'sub', bars: Bar[], range: ViewRange) {
+  return indicators
+    .filter((indicator) => INDICATOR_SPECS[indicator.type].pane === pane)
+    .map((indicator) => computeIndicator(indicator, bars).map((series) => toIndicatorDataset(series, range)));
+}
+
+function getPaneFraction(): number {
+  return settings.indicatorPaneHeight ?? 0.3;
+}
+
+function updatePaneHeight() {
+  indicatorPanesEl.style.height = `${getPaneFraction() * 100}%`;
+}
+
+// Panes in price units (MACD) format values like prices; oscillators keep two decimals
+function createPaneChart(paneCanvas: HTMLCanvasElement, xOffset: boolean, inPrice: boolean): Chart {
+  return new Chart(paneCanvas, {
+    type: 'line',
+    data: { labels: [], datasets: [] },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      animation: false,
+      plugins: {
+        legend: { display: false },
+        tooltip: {
+          enabled: true,
+          backgroundColor: () => withAlpha(getTheme().background, 0.9),
+          titleColor: () => getTheme().text,
+          bodyColor: () => getTheme().accent,
+          displayColors: false,
+          filter: (item) => item.dataset.label !== '', // RSI guide levels
+          callbacks: {
+            label: (ctx) => {
+              const value = inPrice ? formatPrice(ctx.parsed.y, false) : ctx.parsed.y.toFixed(2);
+              return `${ctx.dataset.label} ${value}`;
+            },
+          },
+        },
+      },
+      scales: {
+        x: { display: false, offset: xOffset },
+        y: {
+          display: true,
+          position: 'right',
+          grid: { display: false },
+          ticks: {
+            color: () => withAlpha(getTheme().axis, 0.5),
+            font: () => ({ size: getTheme().fontSize }),
+            maxTicksLimit: 3,
+          },
+          border: { display: false },
+          // Same axis width as the price chart, so bars line up across panes
+          afterFit: (scale) => {
+            if (chart) scale.width = chart.scales.y.width;
+          },
+        },
+      },
+      interaction: {
+        intersect: false,
+        mode: 'index',
+      },
+    },
   });
-  const prices = reversed.map(v => parseFloat(v.close));
+}
 
-  const currentPrice = prices[prices.length - 1];
-  const firstPrice = prices[0];
-  const change = ((currentPrice - firstPrice) / firstPrice) * 100;
+// One pane per RSI/MACD indicator, stacked under the price chart
+function updateIndicatorPanes(bars: Bar[], range: ViewRange, labels: string[]) {
+  const subIndicators = indicators.filter((indicator) => INDICATOR_SPECS[indicator.type].pane === 'sub');
+  // Bar chart types offset the x axis, and the panes must match it
+  const xOffset = isBarChartType(getChartType());
+  const ids = `${subIndicators.map((indicator) => indicator.id).join()}|${xOffset}`;
+
+  if (ids !== paneIndicatorIds) {
+    paneIndicatorIds = ids;
+    paneCharts.forEach((paneChart) => paneChart.destroy());
+    const panes = subIndicators.map(() => {
+      const pane = document.createElement('div');
+      pane.className = 'indicator-pane';
+      pane.appendChild(document.createElement('canvas'));
+      return pane;
+    });
+    indicatorPanesEl.replaceChildren(...panes);
+    chartContainerEl.classList.toggle('has-panes', panes.length > 0);
+    updatePaneHeight();
+    paneCharts = panes.map((pane, i) => createPaneChart(
+      pane.firstChild as HTMLCanvasElement,
+      xOffset,
+      !INDICATOR_SPECS[subIndicators[i].type].oscillator,
+    ));
+  }
 
-  // Check if price crossed any alert lines
-  checkPriceAlerts(currentPrice);
+  const datasets = getIndicatorDatasets('sub', bars, range);
+  paneCharts.forEach((paneChart, i) => {
+    paneChart.data.labels = labels;
+    paneChart.data.datasets = datasets[i];
+    paneChart.update('none');
+  });
+}
 
-  // Remove alerts that are outside the current price range
-  const minPrice = Math.min(...prices);
-  const maxPrice = Math.max(...prices);
-  const padding = (maxPrice - minPrice) * 0.1; // Chart.js adds ~10% padding
-  const prevLength = alertLines.length;
-  alertLines = alertLines.filter(
-    (price) => price >= minPrice - padding && price <= maxPrice + padding
-  );
-  if (alertLines.length !== prevLength) {
-    saveAlerts();
+function formatTooltipLabel(index: number, value: number): string | string[] {
+  const bar = displayBars[index];
+  if (!isBarChartType(getChartType()) || !bar) {
+    const price = formatPrice(axisToPrice(value));
+    return percentBase === null ? price : `${price} (${formatPercent(value)})`;
   }
+  return [
+    `O ${formatPrice(bar.open)}`,
+    `H ${formatPrice(bar.high)}`,
+    `L ${formatPrice(bar.low)}`,
+    `C ${formatPrice(bar.close)}`,
+  ];
+}
+
+interface ViewRange {
+  start: number;
+  end: number; // exclusive
+}
+
+function getViewRange(bars: Bar[]): ViewRange {
+  let end = bars.length;
+  if (viewEndTime !== null) {
+    const after = bars.findIndex((bar) => bar.time > viewEndTime);
+    end = Math.max(after === -1 ? bars.length : after, Math.min(MIN_VIEW_BARS, bars.length));
+  }
+  return { start: Math.max(0, end - viewBars), end };
+}
+
+// Anchor the window's right edge to a bar, so new and older bars don't shift the view
+function setViewEnd(bars: Bar[], end: number) {
+  viewEndTime = end >= bars.length ? null : bars[end - 1].time;
+}
+
+function resetView() {
+  viewBars = VISIBLE_BARS;
+  viewEndTime = null;
+  historyExhausted = false;
+}
+
+// Drawings live in time/price; on the category x-axis a time becomes a fractional bar index
+function getDrawingProjection(): DrawingProjection | null {
+  const bars = lastSuccessfulData;
+  if (!chart || !bars || bars.length === 0) return null;
+  const { x: xScale, y: yScale } = chart.scales;
+  const times = bars.map((bar) => bar.time);
+  const { start } = getViewRange(bars);
+  const intervalMs = getIntervalMs(getTimeframe());
+  const x0 = xScale.getPixelForValue(0);
+  const slotWidth = xScale.getPixelForValue(1) - x0 || 1;
+
+  return {
+    toPixel: ({ time, price }) => ({
+      x: x0 + (timeToIndex(times, time, intervalMs) - start) * slotWidth,
+      y: yScale.getPixelForValue(priceToAxis(price)),
+    }),
+    fromPixel: ({ x, y }) => ({
+      time: indexToTime(times, start + (x - x0) / slotWidth, intervalMs),
+      price: axisToPrice(yScale.getValueForPixel(y) ?? 0),
+    }),
+  };
+}
+
+function findDrawingHit(x: number, y: number) {
+  const projection = getDrawingProjection();
+  if (!chart || !projection) return null;
+  return findDrawingAt(chart.ctx, chart.chartArea, drawings, projection, { x, y });
+}
+
+// Text notes are added once they have text, and removed when it's cleared
+function editNote(note: Drawing, clientX: number, clientY: number) {
+  openNotePopover(note.text ?? '', clientX, clientY, (text) => {
+    const others = drawings.filter((d) => d.id !== note.id);
+    if (!text) {
+      drawings = others;
+    } else if (others.length < drawings.length) {
+      drawings = drawings.map((d) => (d.id === note.id ? { ...d, text } : d));
+    } else {
+      drawings = [...drawings, { ...note, text }];
+    }
+    selectedDrawingId = text ? note.id : null;
+    saveDrawings();
+    chart?.draw();
+  });
+}
 
-  priceEl.textContent = currentPrice.toFixed(2);
+function finishDrawingDrag() {
+  if (!draggingDrawing) return;
+  const { original, placing, moved } = draggingDrawing;
+  draggingDrawing = null;
+  // Two-point drawings are placed by dragging; a bare click leaves nothing behind
+  if (placing && !moved && original.points.length > 1) {
+    drawings = drawings.filter((d) => d.id !== original.id);
+    selectedDrawingId = null;
+  } else if (placing || moved) {
+    saveDrawings();
+  }
+  chart?.draw();
+}
+
+function updateChart(allBars: Bar[]) {
+  const range = getViewRange(allBars);
+  const bars = allBars.slice(range.start, range.end);
+  const chartType = getChartType();
+  displayBars = chartType === 'heikin-ashi' ? toHeikinAshi(allBars).slice(range.start, range.end) : bars;
+  const labels = bars.map((bar) => formatTimeLabel(bar.time));
+  const times = bars.map((bar) => bar.time);
+  const intraday = getIntervalMs(getTimeframe()) < getIntervalMs('1day');
+  gapIndices = findGaps(times, getIntervalMs(getTimeframe()));
+  sessionRanges = intraday ? getSessionRanges(times, settings.sessions ?? []) : [];
+
+  // Comparisons switch the axis to percent change from the first visible bar that every
+  // loaded series has
+  percentBase = null;
+  const compareDatasets = [];
+  const compareChanges = new Map<string, number | null>();
+  if (comparisons.length > 0) {
+    const compared = comparisons.map((comparison) => {
+      const other = comparisonBars.get(comparison.symbol);
+      return { comparison, closes: other ? alignCloses(allBars, other) : null };
+    });
+    const loaded = compared.flatMap(({ closes }) => (closes ? [closes] : []));
+    const common = findCommonStart([allBars.map((bar) => bar.close), ...loaded], range.start, range.end);
+    const baseIndex = common === -1 ? range.start : common;
+    percentBase = allBars[baseIndex].close;
+
+    for (const { comparison, closes } of compared) {
+      const base = closes?.[baseIndex];
+      const data = closes && base ? toPercentChange(closes.slice(range.start, range.end), base) : bars.map((): null => null);
+      compareDatasets.push(toComparisonDataset(comparison, data));
+      compareChanges.set(comparison.symbol, [...data].reverse().find((value) => value !== null) ?? null);
+    }
+  }
+  renderComparisonLegend(compareChanges);
+
+  const prices = bars.map((bar) => priceToAxis(bar.close));
+  // Bar types need the scale to span wicks, not just closes
+  const lows = isBarChartType(chartType) ? displayBars.map((bar) => priceToAxis(bar.low)) : prices;
+  const highs = isBarChartType(chartType) ? displayBars.map((bar) => priceToAxis(bar.high)) : prices;
+  const compareValues = compareDatasets.flatMap((dataset) => dataset.data.filter((value) => value !== null));
+
+  const overlays = [
+    ...getIndicatorDatasets('overlay', allBars, range).flat().map((dataset) => ({
+      ...dataset,
+      data: dataset.data.map((value) => (value === null ? null : priceToAxis(value))),
+    })),
+    ...compareDatasets,
+  ];
+
+  // The headline stays on live data wherever the chart is scrolled to
+  const liveBars = allBars.slice(-VISIBLE_BARS);
+  const currentPrice = liveBars[liveBars.length - 1].close;
+  const firstPrice = liveBars[0].close;
+  const change = ((currentPrice - firstPrice) / firstPrice) * 100;
+
+  // Scale to the data plus any alert levels the user pinned into view
+  const pinned = pinnedAxisPrices.map(priceToAxis);
+  const minPrice = Math.min(...lows, ...compareValues, ...pinned);
+  const maxPrice = Math.max(...highs, ...compareValues, ...pinned);
+
+  priceEl.textContent = formatPrice(currentPrice, false);
   changeEl.textContent = `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`;
   changeEl.className = `title-change ${change >= 0 ? 'positive' : 'negative'}`;
 
   if (chart) {
     chart.data.labels = labels;
     chart.data.datasets[0].data = prices;
-    chart.data.datasets[0].borderColor = settings.accentColor;
-    (chart.data.datasets[0] as any).pointHoverBackgroundColor = settings.accentColor;
-    chart.options.plugins.tooltip.bodyColor = settings.accentColor;
-    // Recreate gradient with new color
-    const ctx = canvas.getContext('2d');
-    const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
-    gradient.addColorStop(0, getAccentRgba(0.15));
-    gradient.addColorStop(0.5, getAccentRgba(0.05));
-    gradient.addColorStop(1, getAccentRgba(0));
-    chart.data.datasets[0].backgroundColor = gradient;
+    chart.data.datasets = [chart.data.datasets[0], ...overlays];
+    // Recreate styling (and gradient) with the current color
+    Object.assign(chart.data.datasets[0], getDatasetStyle());
+    (chart.data.datasets[0] as any).pointHoverBackgroundColor = getTheme().accent;
+    chart.options.scales.y.suggestedMin = minPrice;
+    chart.options.scales.y.suggestedMax = maxPrice;
     chart.update('none');
   } else {
-    const ctx = canvas.getContext('2d');
-    const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
-    gradient.addColorStop(0, getAccentRgba(0.15));
-    gradient.addColorStop(0.5, getAccentRgba(0.05));
-    gradient.addColorStop(1, getAccentRgba(0));
-
     chart = new Chart(canvas, {
       type: 'line',
       data: {
         labels,
         datasets: [{
           data: prices,
-          borderColor: settings.accentColor,
-          borderWidth: 2,
-          fill: true,
-          backgroundColor: gradient,
           tension: 0.35,
           pointRadius: 0,
-          pointHoverRadius: 4,
-          pointHoverBackgroundColor: settings.accentColor,
-        }],
+          pointHoverBackgroundColor: getTheme().accent,
+          ...getDatasetStyle(),
+        }, ...overlays],
       },
       options: {
         responsive: true,
@@ -434,34 +1672,58 @@ function updateChart(values: TimeSeriesValue[]) {
           legend: { display: false },
           tooltip: {
             enabled: true,
-            backgroundColor: 'rgba(20, 20, 20, 0.9)',
-            titleColor: '#fff',
-            bodyColor: settings.accentColor,
+            backgroundColor: () => withAlpha(getTheme().background, 0.9),
+            titleColor: () => getTheme().text,
+            bodyColor: () => getTheme().accent,
             displayColors: false,
             callbacks: {
-              label: (ctx) => `$${ctx.parsed.y.toFixed(2)}`,
+              label: (ctx) => {
+                if (ctx.datasetIndex === 0) return formatTooltipLabel(ctx.dataIndex, ctx.parsed.y);
+                // Overlays are in price, like the instrument, until comparing switches to percent
+                const value = percentBase === null ? formatPrice(ctx.parsed.y, false) : formatPercent(ctx.parsed.y);
+                return `${ctx.dataset.label} ${value}`;
+              },
             },
           },
         },
         scales: {
           x: {
             display: true,
-            grid: { display: false },
+            offset: isBarChartType(chartType), // keep the first/last candle fully visible
+            // A faint line at each day (or month) boundary
+            grid: {
+              drawTicks: false,
+              color: (ctx) => (ctx.tick?.major ? withAlpha(getTheme().grid, 0.08) : 'transparent'),
+            },
+            // Ticks on round times rather than every nth bar, about one per 70px
+            afterBuildTicks: (scale) => {
+              const times = displayBars.map((bar) => bar.time);
+              const maxTicks = Math.max(2, Math.floor(scale.width / 70));
+              scale.ticks = buildTimeTicks(times, getTimezone(), getIntervalMs(getTimeframe()), maxTicks)
+                .map((tick) => ({ value: tick.index, label: tick.label, major: tick.major }));
+            },
             ticks: {
-              color: 'rgba(255, 255, 255, 0.5)',
-              font: { size: 10 },
-              maxTicksLimit: 5,
+              color: (ctx) => withAlpha(getTheme().axis, ctx.tick?.major ? 0.8 : 0.5),
+              font: (ctx) => ({ size: getTheme().fontSize, weight: ctx.tick?.major ? 'bold' : 'normal' }),
+              autoSkip: false,
+              maxRotation: 0,
+              padding: 6,
+              callback: (_value, index, ticks) => ticks[index]?.label,
             },
             border: { display: false },
           },
           y: {
             display: true,
             position: 'right',
+            suggestedMin: minPrice,
+            suggestedMax: maxPrice,
             grid: { display: false },
             ticks: {
-              color: 'rgba(255, 255, 255, 0.5)',
-              font: { size: 10 },
-              callback: (value) => `$${Number(value).toFixed(2)}`,
+              color: () => withAlpha(getTheme().axis, 0.5),
+              font: () => ({ size: getTheme().fontSize }),
+              callback: (value) => (percentBase === null
+                ? formatPrice(Number(value), false)
+                : formatPercent(Number(value))),
             },
             border: { display: false },
           },
@@ -473,13 +1735,89 @@ function updateChart(values: TimeSeriesValue[]) {
       },
     });
   }
+
+  // After the price chart, whose axis width the panes copy
+  updateIndicatorPanes(allBars, range, labels);
+}
+
+// Page in older bars once the window (plus indicator warm-up) reaches the oldest one
+async function loadOlderBars() {
+  const bars = lastSuccessfulData;
+  if (!bars || loadingHistory || historyExhausted || bars.length >= MAX_CACHED_BARS) return;
+  if (getViewRange(bars).start > getWarmupBars(indicators)) return;
+
+  const key = getSeriesKey();
+  loadingHistory = true;
+  try {
+    const older = await getActiveProvider().fetchBars({
+      symbol: settings.instrument,
+      interval: getTimeframe(),
+      outputsize: HISTORY_PAGE_BARS,
+      before: bars[0].time,
+    }, createProviderContext('history'));
+    if (!isCurrentSeries(key) || !lastSuccessfulData) return;
+    if (older.length === 0) {
+      historyExhausted = true;
+      return;
+    }
+
+    // The older page goes in front of what we have
+    lastSuccessfulData = mergeBars(older, lastSuccessfulData, MAX_CACHED_BARS);
+    window.electronAPI.writeBarCache(...key, lastSuccessfulData);
+    updateChart(lastSuccessfulData);
+  } catch (error) {
+    // Most providers error past the start of their history; don't keep asking
+    if (isCurrentSeries(key)) {
+      historyExhausted = true;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      statusEl.textContent = `No older history: ${message}`;
+    }
+  } finally {
+    loadingHistory = false;
+  }
 }
 
+// Drag the divider to share the height between the price chart and the indicator panes
+paneResizerEl.addEventListener('mousedown', (e) => {
+  e.preventDefault();
+  const startY = e.clientY;
+  const startFraction = getPaneFraction();
+  const containerHeight = chartContainerEl.clientHeight;
+
+  const onMouseMove = (moveEvent: MouseEvent) => {
+    const fraction = startFraction - (moveEvent.clientY - startY) / containerHeight;
+    settings.indicatorPaneHeight = Math.min(0.6, Math.max(0.15, fraction));
+    updatePaneHeight();
+  };
+
+  const onMouseUp = () => {
+    document.removeEventListener('mousemove', onMouseMove);
+    document.removeEventListener('mouseup', onMouseUp);
+    window.electronAPI.patchSettings({ indicatorPaneHeight: settings.indicatorPaneHeight });
+  };
+
+  document.addEventListener('mousemove', onMouseMove);
+  document.addEventListener('mouseup', onMouseUp);
+});
+
 async function refreshData() {
+  // Show the cached series straight away (startup, timeframe or instrument switch)
+  if (!lastSuccessfulData) {
+    const key = getSeriesKey();
+    const cached = await window.electronAPI.readBarCache(...key);
+    if (cached && !lastSuccessfulData && isCurrentSeries(key)) {
+      lastSuccessfulData = cached;
+      updateChart(cached);
+    }
+  }
+
   const data = await fetchPriceData();
   if (data) {
     updateChart(data);
   }
+  updateFreshness();
+  scheduleRetry();
+  refreshComparisons();
 }
 
 function updateTitle() {
@@ -490,34 +1828,164 @@ function updateTimeframeDisplay() {
   timeframeEl.textContent = getTimeframe();
 }
 
-function updateOpacity() {
+function updateChartTypeDisplay() {
+  chartTypeEl.textContent = CHART_TYPE_LABELS[getChartType()];
+}
+
+// The stylesheet takes its colors from these variables; charts read the theme as they draw
+function updateTheme() {
+  const theme = getTheme();
+  const style = document.documentElement.style;
+  style.setProperty('--fg', toRgbTriplet(theme.text));
+  style.setProperty('--bg', toRgbTriplet(theme.background));
+  style.setProperty('--accent', toRgbTriplet(theme.accent));
+  style.setProperty('--up', theme.up);
+  style.setProperty('--down', theme.down);
+  style.setProperty('--font', theme.font);
+  Chart.defaults.font.family = theme.font;
+
   const opacity = settings.opacity ?? 0.6;
-  widgetEl.style.background = `rgba(20, 20, 20, ${opacity})`;
+  widgetEl.style.background = `rgba(${toRgbTriplet(theme.background)}, ${opacity})`;
+  widgetEl.style.opacity = settings.ghostMode ? String(settings.ghostOpacity ?? 0.4) : '';
+}
+
+// Reset per-instrument state and reload everything for settings.instrument
+function applyInstrumentChange() {
+  lastSuccessfulData = null;
+  pinnedAxisPrices = [];
+  resetView();
+  resetFreshness();
+  loadAlerts(); // Load alerts, indicators, drawings and comparisons for the new instrument
+  loadIndicators();
+  loadDrawings();
+  loadComparisons();
+  resetComparisonData();
+  loadPriceDetails();
+  if (chart) {
+    chart.destroy();
+    chart = null;
+  }
+  updateTitle();
+  updateTimeframeDisplay();
+  updateBudgetDisplay();
+  priceEl.textContent = '--';
+  changeEl.textContent = '--%';
+  changeEl.className = 'title-change';
+
+  if (getActiveProvider().requiresApiKey && !hasApiKey()) {
+    stopPriceStream();
+    statusEl.textContent = 'Error: API key not configured. Click the gear icon to set it.';
+    return;
+  }
+
+  statusEl.textContent = '';
+  refreshData();
+  startRefreshInterval();
 }
 
 let refreshIntervalId: ReturnType<typeof setInterval> | null = null;
+let priceStream: PriceStream | null = null;
+let chartUpdatePending = false;
+
+// Ticks can arrive many times a second; redraw at most once per frame
+function scheduleChartUpdate() {
+  if (chartUpdatePending) return;
+  chartUpdatePending = true;
+  requestAnimationFrame(() => {
+    chartUpdatePending = false;
+    if (lastSuccessfulData) {
+      updateChart(lastSuccessfulData);
+    }
+  });
+}
 
-function startRefreshInterval() {
+function handleTick(tick: Tick) {
+  // Wait for the REST backfill before building on top of it
+  if (!lastSuccessfulData) return;
+  lastSuccessfulData = applyTick(lastSuccessfulData, tick, getIntervalMs(getTimeframe()), MAX_CACHED_BARS);
+  lastUpdatedAt = Date.now();
+  scheduleChartUpdate();
+}
+
+function stopPriceStream() {
+  if (priceStream) {
+    priceStream.close();
+    priceStream = null;
+  }
+}
+
+// Returns false when streaming is off or the provider has no feed
+function startPriceStream(): boolean {
+  stopPriceStream();
+  if (!settings.streaming) return false;
+
+  const spec = getStreamSpec(getActiveProvider(), settings.streamUrl);
+  if (!spec) return false;
+
+  priceStream = openPriceStream({
+    spec,
+    provider: getActiveProvider().id,
+    symbol: settings.instrument,
+    onTick: handleTick,
+    onOpen: (reconnected) => {
+      // Fill whatever was missed while disconnected
+      if (reconnected) {
+        refreshData();
+      }
+    },
+    onStatus: (status, detail) => {
+      if (status === 'reconnecting') {
+        statusEl.textContent = `Stream disconnected${detail ? `, ${detail}` : ''}`;
+      } else if (status === 'open' && statusEl.textContent.startsWith('Stream')) {
+        statusEl.textContent = '';
+      } else if (status === 'closed' && detail) {
+        // The feed gave up for good (closing it on purpose gives no detail); poll instead
+        statusEl.textContent = `Stream closed, ${detail}`;
+        setRefreshTask(refreshData);
+      }
+    },
+  });
+  return true;
+}
+
+function setRefreshTask(task: () => void) {
   if (refreshIntervalId) {
     clearInterval(refreshIntervalId);
   }
-  const intervalMs = (settings.refreshInterval || 60) * 1000;
-  refreshIntervalId = setInterval(refreshData, intervalMs);
+  refreshIntervalId = setInterval(task, (settings.refreshInterval || 60) * 1000);
+}
+
+function startRefreshInterval() {
+  // A live stream replaces polling; REST is then only used for backfill and comparisons
+  setRefreshTask(startPriceStream() ? refreshComparisons : refreshData);
 }
 
 async function init() {
   settings = await window.electronAPI.getSettings();
   updateTitle();
   updateTimeframeDisplay();
-  updateOpacity();
+  updateChartTypeDisplay();
+  updateTheme();
   loadAlerts();
+  loadIndicators();
+  loadDrawings();
+  loadComparisons();
+  loadPriceDetails();
+  budgetStatus = await window.electronAPI.getApiBudget();
+  updateBudgetDisplay();
+  apiKeys = await window.electronAPI.getApiKeys();
+  profileList = await window.electronAPI.getProfiles();
+  renderProfiles();
 
   // Restore mini mode state if it was enabled (don't re-save)
   if (settings.miniMode) {
     setMiniMode(true, false);
   }
+  if (settings.ghostMode) {
+    setGhostMode(true, false);
+  }
 
-  if (!settings.apiKey) {
+  if (getActiveProvider().requiresApiKey && !hasApiKey()) {
     statusEl.textContent = 'Error: API key not configured. Click the gear icon to set it.';
     return;
   }
@@ -526,15 +1994,37 @@ async function init() {
   startRefreshInterval();
 }
 
-// Helper to find alert near a y position
-function findAlertIndexAtY(y: number): number {
-  if (!chart) return -1;
+// Helper to find the alert line near a y position
+function findAlertAtY(y: number): { index: number; field: AlertLevel['field'] } | null {
+  if (!chart) return null;
   const { scales } = chart;
-  const priceRange = scales.y.max - scales.y.min;
-  const tolerance = priceRange * 0.02;
-  const price = scales.y.getValueForPixel(y);
-  if (price === undefined) return -1;
-  return alertLines.findIndex((p) => Math.abs(p - price) < tolerance);
+  const tolerance = (scales.y.max - scales.y.min) * 0.02;
+  const value = scales.y.getValueForPixel(y);
+  if (value === undefined) return null;
+
+  for (let index = 0; index < alerts.length; index++) {
+    const line = getAlertLinePrices(alerts[index]).find((l) => Math.abs(priceToAxis(l.price) - value) < tolerance);
+    if (line) return { index, field: line.field };
+  }
+  return null;
+}
+
+function editAlert(index: number, clientX: number, clientY: number) {
+  const alert = alerts[index];
+  if (!alert) return;
+
+  openAlertPopover(alert, clientX, clientY, {
+    onSave: (updated) => {
+      alerts = alerts.map((a) => (a.id === updated.id ? updated : a));
+      saveAlerts();
+      chart?.draw();
+    },
+    onDelete: (alertId) => {
+      alerts = alerts.filter((a) => a.id !== alertId);
+      saveAlerts();
+      chart?.draw();
+    },
+  });
 }
 
 // Crosshair event listeners
@@ -543,13 +2033,44 @@ canvas.addEventListener('mousemove', (e) => {
   crosshairX = e.clientX - rect.left;
   crosshairY = e.clientY - rect.top;
 
+  // Placing or dragging a drawing (a few pixels of slack so clicks don't nudge it)
+  if (draggingDrawing !== null) {
+    const projection = getDrawingProjection();
+    const dx = crosshairX - draggingDrawing.startX;
+    const dy = crosshairY - draggingDrawing.startY;
+    if (!projection || (!draggingDrawing.moved && Math.hypot(dx, dy) < 3)) return;
+    draggingDrawing.moved = true;
+    const updated = dragDrawing(draggingDrawing.original, draggingDrawing.handle, dx, dy, projection);
+    drawings = drawings.map((d) => (d.id === updated.id ? updated : d));
+    chart?.draw();
+    return;
+  }
+
+  // Drag-to-pan: move the window's right edge by whole bars
+  if (panning !== null && chart && lastSuccessfulData) {
+    const bars = lastSuccessfulData;
+    const { start, end } = getViewRange(bars);
+    const slotWidth = (chart.chartArea.right - chart.chartArea.left) / Math.max(1, end - start);
+    const shift = Math.round((e.clientX - panning.startX) / slotWidth);
+    const nextEnd = Math.min(bars.length, Math.max(Math.min(end - start, bars.length), panning.startEnd - shift));
+    if (nextEnd !== end) {
+      setViewEnd(bars, nextEnd);
+      scheduleChartUpdate();
+      loadOlderBars();
+    }
+    return;
+  }
+
   // Handle dragging alert lines (no Ctrl needed once dragging)
-  if (draggingAlertIndex !== null && chart) {
+  if (draggingAlert !== null && chart) {
+    if (draggingAlert.field === null) return; // derived lines only open the editor
     const { chartArea, scales } = chart;
     const clampedY = Math.max(chartArea.top, Math.min(chartArea.bottom, crosshairY));
-    const newPrice = scales.y.getValueForPixel(clampedY);
-    if (newPrice !== undefined) {
-      alertLines[draggingAlertIndex] = newPrice;
+    const value = scales.y.getValueForPixel(clampedY);
+    if (value !== undefined) {
+      const alert = alerts[draggingAlert.index];
+      alerts[draggingAlert.index] = { ...alert, [draggingAlert.field]: getPriceFormat().round(axisToPrice(value)) };
+      draggingAlert.moved = true;
       chart.draw();
     }
     return;
@@ -557,9 +2078,16 @@ canvas.addEventListener('mousemove', (e) => {
 
   // Update cursor when hovering over alert lines
   if (chart) {
-    const alertIdx = findAlertIndexAtY(crosshairY);
-    if (alertIdx !== -1) {
-      canvas.style.cursor = 'ns-resize';
+    const hovered = findAlertAtY(crosshairY);
+    const drawingHit = ctrlPressed ? null : findDrawingHit(crosshairX, crosshairY);
+    if (findOffscreenMarkerAt(crosshairX, crosshairY)) {
+      canvas.style.cursor = 'pointer';
+    } else if (drawingTool !== null) {
+      canvas.style.cursor = 'crosshair';
+    } else if (drawingHit) {
+      canvas.style.cursor = drawingHit.handle === null ? 'move' : 'grab';
+    } else if (hovered) {
+      canvas.style.cursor = hovered.field === null ? 'pointer' : 'ns-resize';
     } else if (ctrlPressed) {
       canvas.style.cursor = 'crosshair';
     } else {
@@ -576,20 +2104,111 @@ canvas.addEventListener('mousemove', (e) => {
 canvas.addEventListener('mousedown', (e) => {
   if (!chart) return;
 
+  // First click on the chart just dismisses an open alert editor
+  if (isAlertPopoverOpen()) {
+    closeAlertPopover();
+    return;
+  }
+  if (isNotePopoverOpen()) {
+    closeNotePopover();
+    return;
+  }
+
   const rect = canvas.getBoundingClientRect();
   const y = e.clientY - rect.top;
+
+  // Clicking an off-screen alert marker rescales the axis to bring it into view
+  const marker = findOffscreenMarkerAt(e.clientX - rect.left, y);
+  if (marker) {
+    pinnedAxisPrices.push(marker.price);
+    if (lastSuccessfulData) {
+      updateChart(lastSuccessfulData);
+    }
+    e.preventDefault();
+    return;
+  }
   const { chartArea } = chart;
 
   if (y < chartArea.top || y > chartArea.bottom) return;
+  const x = e.clientX - rect.left;
+
+  // An armed tool places a drawing: text notes ask for their text, the rest follow the drag
+  const projection = getDrawingProjection();
+  if (drawingTool !== null && projection && !ctrlPressed) {
+    const drawing = createDrawing(drawingTool, projection.fromPixel({ x, y }));
+    selectDrawingTool(null);
+    if (drawing.type === 'text') {
+      editNote(drawing, e.clientX, e.clientY);
+    } else {
+      drawings = [...drawings, drawing];
+      selectedDrawingId = drawing.id;
+      const handle = drawing.points.length - 1;
+      draggingDrawing = { original: drawing, handle, startX: x, startY: y, placing: true, moved: false };
+      chart.draw();
+    }
+    e.preventDefault();
+    return;
+  }
+
+  // Drawings are picked before alert lines; a click anywhere else deselects
+  const drawingHit = ctrlPressed ? null : findDrawingHit(x, y);
+  const picked = drawingHit && drawings.find((d) => d.id === drawingHit.id);
+  if (picked) {
+    selectedDrawingId = picked.id;
+    draggingDrawing = { original: picked, handle: drawingHit.handle, startX: x, startY: y, placing: false, moved: false };
+    chart.draw();
+    e.preventDefault();
+    return;
+  }
+  if (selectedDrawingId !== null) {
+    selectedDrawingId = null;
+    chart.draw();
+  }
 
-  const alertIdx = findAlertIndexAtY(y);
-  if (alertIdx !== -1 && !ctrlPressed) {
+  const hovered = findAlertAtY(y);
+  if (hovered && !ctrlPressed) {
     // Start dragging existing alert (only if NOT Ctrl, to allow Ctrl+Click delete)
-    draggingAlertIndex = alertIdx;
+    draggingAlert = { ...hovered, moved: false };
+    e.preventDefault();
+  } else if (!hovered && !ctrlPressed && lastSuccessfulData) {
+    // Dragging empty chart pans through history
+    panning = { startX: e.clientX, startEnd: getViewRange(lastSuccessfulData).end };
+    canvas.style.cursor = 'grabbing';
     e.preventDefault();
   }
 });
 
+// Wheel zooms; the right edge stays put (on live data it keeps following it)
+canvas.addEventListener('wheel', (e) => {
+  if (!lastSuccessfulData) return;
+  e.preventDefault();
+  const bars = lastSuccessfulData;
+  const { start, end } = getViewRange(bars);
+  const factor = e.deltaY > 0 ? 1.2 : 1 / 1.2;
+  const count = Math.min(MAX_VIEW_BARS, Math.max(MIN_VIEW_BARS, Math.round((end - start) * factor)));
+  if (count === viewBars) return;
+  viewBars = count;
+  updateChart(bars);
+  loadOlderBars();
+}, { passive: false });
+
+// Double-clicking a text note edits it; anywhere else snaps back to live
+canvas.addEventListener('dblclick', (e) => {
+  const rect = canvas.getBoundingClientRect();
+  const hit = findDrawingHit(e.clientX - rect.left, e.clientY - rect.top);
+  const note = hit && drawings.find((d) => d.id === hit.id);
+  if (note && note.type === 'text') {
+    editNote(note, e.clientX, e.clientY);
+    return;
+  }
+
+  viewBars = VISIBLE_BARS;
+  viewEndTime = null;
+  if (lastSuccessfulData) {
+    updateChart(lastSuccessfulData);
+  }
+});
+
 // Mouse up to finish dragging or handle Ctrl+Click actions
 canvas.addEventListener('mouseup', (e) => {
   if (!chart) return;
@@ -598,11 +2217,32 @@ canvas.addEventListener('mouseup', (e) => {
   const y = e.clientY - rect.top;
   const { chartArea, scales } = chart;
 
-  // Finish dragging (save the new position)
-  if (draggingAlertIndex !== null) {
-    draggingAlertIndex = null;
-    saveAlerts();
-    chart.draw();
+  if (panning !== null) {
+    panning = null;
+    canvas.style.cursor = 'default';
+    return;
+  }
+
+  if (draggingDrawing !== null) {
+    finishDrawingDrag();
+    return;
+  }
+
+  // Finish dragging (save the new position), or open the editor on a plain click
+  if (draggingAlert !== null) {
+    const { index, moved } = draggingAlert;
+    draggingAlert = null;
+    if (moved) {
+      const alert = alerts[index];
+      // Keep channel bounds ordered after dragging one past the other
+      if (alert.type === 'channel' && alert.upper !== undefined && alert.upper < alert.price) {
+        alerts[index] = { ...alert, price: alert.upper, upper: alert.price };
+      }
+      saveAlerts();
+      chart.draw();
+    } else {
+      editAlert(index, e.clientX, e.clientY);
+    }
     return;
   }
 
@@ -612,18 +2252,19 @@ canvas.addEventListener('mouseup', (e) => {
   // Check if click is within chart area
   if (y < chartArea.top || y > chartArea.bottom) return;
 
-  const clickedPrice = scales.y.getValueForPixel(y);
-  if (clickedPrice === undefined) return;
+  const clickedValue = scales.y.getValueForPixel(y);
+  if (clickedValue === undefined) return;
+  const clickedPrice = axisToPrice(clickedValue);
 
   // Check if clicking near an existing alert line
-  const alertIdx = findAlertIndexAtY(y);
+  const hovered = findAlertAtY(y);
 
-  if (alertIdx !== -1) {
+  if (hovered) {
     // Ctrl+Click on existing alert = delete
-    alertLines.splice(alertIdx, 1);
+    alerts.splice(hovered.index, 1);
   } else {
     // Ctrl+Click on empty space = add new alert
-    alertLines.push(clickedPrice);
+    alerts.push(createAlert(getPriceFormat().round(clickedPrice)));
   }
 
   saveAlerts();
@@ -633,7 +2274,9 @@ canvas.addEventListener('mouseup', (e) => {
 canvas.addEventListener('mouseleave', () => {
   crosshairX = null;
   crosshairY = null;
-  draggingAlertIndex = null;
+  draggingAlert = null;
+  panning = null;
+  finishDrawingDrag();
   canvas.style.cursor = 'default';
   if (chart) {
     chart.draw();
@@ -647,12 +2290,36 @@ document.addEventListener('keydown', (e) => {
       chart.draw();
     }
   }
+
+  // Keys typed into a field (a drawing's text, an indicator param) are the field's
+  if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement
+    || e.target instanceof HTMLSelectElement) {
+    return;
+  }
+
+  // [ and ] cycle through the watchlist
+  if (e.key === '[' || e.key === ']') {
+    cycleInstrument(e.key === ']' ? 1 : -1);
+  }
+
+  // Delete removes the selected drawing; Escape disarms the tool and deselects
+  if ((e.key === 'Delete' || e.key === 'Backspace') && selectedDrawingId !== null) {
+    drawings = drawings.filter((d) => d.id !== selectedDrawingId);
+    selectedDrawingId = null;
+    saveDrawings();
+    chart?.draw();
+  }
+  if (e.key === 'Escape') {
+    selectDrawingTool(null);
+    selectedDrawingId = null;
+    chart?.draw();
+  }
 });
 
 document.addEventListener('keyup', (e) => {
   if (e.key === 'Control') {
     ctrlPressed = false;
-    draggingAlertIndex = null;
+    draggingAlert = null;
     canvas.style.cursor = 'default';
     if (chart) {
       chart.draw();
@@ -660,28 +2327,78 @@ document.addEventListener('keyup', (e) => {
   }
 });
 
+window.electronAPI.onProfilesUpdated((list) => {
+  profileList = list;
+  renderProfiles();
+});
+
+// A key added, removed or switched in settings takes effect straight away
+window.electronAPI.onApiKeysUpdated((keys) => {
+  const provider = getActiveProvider();
+  const changed = apiKeys[provider.id]?.active !== keys[provider.id]?.active;
+  apiKeys = keys;
+  if (!changed || !provider.requiresApiKey) return;
+
+  if (hasApiKey()) {
+    statusEl.textContent = '';
+    refreshData();
+    startRefreshInterval();
+  } else {
+    stopPriceStream();
+    statusEl.textContent = 'Error: API key not configured. Click the gear icon to set it.';
+  }
+});
+
 // Listen for settings updates
 window.electronAPI.onSettingsUpdated((newSettings: Settings) => {
-  const instrumentChanged = settings.instrument !== newSettings.instrument;
-  const intervalChanged = settings.refreshInterval !== newSettings.refreshInterval;
+  const instrumentChanged = settings.instrument !== newSettings.instrument
+    || settings.providers?.[settings.instrument] !== newSettings.providers?.[newSettings.instrument];
+  const refreshChanged = settings.refreshInterval !== newSettings.refreshInterval
+    || settings.streaming !== newSettings.streaming
+    || settings.streamUrl !== newSettings.streamUrl;
+  // Alerts are evaluated in the main process, which sends their new state here;
+  // alerts, indicators, drawings and comparisons may also have been edited in another widget
+  const withoutOverlays = (s: Settings) => JSON.stringify({
+    ...s, alerts: null, indicators: null, drawings: null, comparisons: null,
+  });
+  const onlyOverlaysChanged = withoutOverlays(settings) === withoutOverlays(newSettings);
+  const previousWarmup = getWarmupBars(indicators);
+  const previousTimeframe = getTimeframe();
   settings = newSettings;
-  updateTitle();
-  updateOpacity();
+  if (draggingAlert === null) {
+    loadAlerts();
+  }
+  loadIndicators();
+  if (draggingDrawing === null) {
+    loadDrawings();
+  }
+  loadComparisons();
+  updatePaneHeight();
+  if (onlyOverlaysChanged) {
+    applyIndicatorChange(previousWarmup);
+    applyComparisonChange();
+    return;
+  }
+  updateTimeframeDisplay();
+  updateTimeframeActiveState();
+  updateChartTypeDisplay();
+  updateChartTypeActiveState();
+  updateTheme();
+  updateBudgetDisplay();
 
   if (instrumentChanged) {
-    lastSuccessfulData = null;
-    lastPrice = null;
-    loadAlerts(); // Load alerts for the new instrument
-    if (chart) {
-      chart.destroy();
-      chart = null;
-    }
+    applyInstrumentChange();
+    return;
+  }
+  if (getTimeframe() !== previousTimeframe) {
+    resetTimeframeData();
   }
 
-  if (settings.apiKey) {
+  updateTitle();
+  if (!getActiveProvider().requiresApiKey || hasApiKey()) {
     statusEl.textContent = '';
     refreshData();
-    if (intervalChanged) {
+    if (refreshChanged) {
       startRefreshInterval();
     }
   }
@@ -1,40 +1,345 @@
 import './settings.css';
-
-interface Settings {
-  instrument: string;
-  apiKey: string;
-  timezone: string;
-  refreshInterval: number;
-  accentColor: string;
-  miniMode: boolean;
-  opacity: number;
-}
-
-declare global {
-  interface Window {
-    electronAPI: {
-      getSettings: () => Promise<Settings>;
-      saveSettings: (settings: Settings) => Promise<boolean>;
-      closeSettings: () => void;
-    };
-  }
-}
+import {
+  DEFAULT_PROVIDER,
+  PROVIDERS,
+  getProvider,
+  type ApiLimits,
+  type InstrumentInfo,
+  type ProviderContext,
+  type SymbolMatch,
+} from './providers';
+import type { BudgetStatus, RequestPriority } from './apiBudget';
+import type { ProviderKeys } from './keyStore';
+import type { Settings, SettingsPatch } from './settingsSchema';
+import { getHotkey, toAccelerator } from './hotkeys';
+import { loadInstrumentInfo, resolveInstrumentInfo } from './priceFormat';
+import { attachSymbolPicker } from './symbolPicker';
+import {
+  addRecentSymbol,
+  createCachedSearch,
+  findExactMatch,
+  isSameSymbol,
+  toggleFavoriteSymbol,
+  type SavedSymbol,
+} from './symbolSearch';
+import {
+  BUILT_IN_THEMES,
+  DEFAULT_THEME_ID,
+  FONTS,
+  isBuiltInTheme,
+  normalizeTheme,
+  resolveTheme,
+  type Theme,
+  type ThemeColorKey,
+} from './themes';
 
 const form = document.getElementById('settings-form') as HTMLFormElement;
 const instrumentInput = document.getElementById('instrument') as HTMLInputElement;
+const symbolResultsList = document.getElementById('symbolResults') as HTMLDivElement;
+const instrumentStatusDisplay = document.getElementById('instrumentStatus') as HTMLSpanElement;
+const watchlistInput = document.getElementById('watchlist') as HTMLInputElement;
+const providerSelect = document.getElementById('provider') as HTMLSelectElement;
+const tickSizeInput = document.getElementById('tickSize') as HTMLInputElement;
+const precisionInput = document.getElementById('precision') as HTMLInputElement;
+const currencyInput = document.getElementById('currency') as HTMLInputElement;
+const apiKeyGroup = document.getElementById('apiKeyGroup') as HTMLDivElement;
+const apiKeyLabel = document.getElementById('apiKeyLabel') as HTMLLabelElement;
+const apiKeySelect = document.getElementById('apiKeySelect') as HTMLSelectElement;
+const apiKeyRemoveBtn = document.getElementById('apiKeyRemove') as HTMLButtonElement;
+const apiKeyNameInput = document.getElementById('apiKeyName') as HTMLInputElement;
 const apiKeyInput = document.getElementById('apiKey') as HTMLInputElement;
+const apiKeyAddBtn = document.getElementById('apiKeyAdd') as HTMLButtonElement;
+const apiKeyStatusDisplay = document.getElementById('apiKeyStatus') as HTMLSpanElement;
 const timezoneSelect = document.getElementById('timezone') as HTMLSelectElement;
 const refreshIntervalInput = document.getElementById('refreshInterval') as HTMLInputElement;
+const streamingInput = document.getElementById('streaming') as HTMLInputElement;
+const streamUrlInput = document.getElementById('streamUrl') as HTMLInputElement;
 const apiCallsPerHourDisplay = document.getElementById('apiCallsPerHour') as HTMLSpanElement;
 const apiCallsPerDayDisplay = document.getElementById('apiCallsPerDay') as HTMLSpanElement;
+const apiLimitsLabel = document.getElementById('apiLimitsLabel') as HTMLLabelElement;
+const limitPerMinuteInput = document.getElementById('limitPerMinute') as HTMLInputElement;
+const limitPerDayInput = document.getElementById('limitPerDay') as HTMLInputElement;
+const apiBudgetDisplay = document.getElementById('apiBudget') as HTMLSpanElement;
 const accentColorInput = document.getElementById('accentColor') as HTMLInputElement;
 const colorPresets = document.querySelectorAll('.color-preset') as NodeListOf<HTMLButtonElement>;
+const upColorInput = document.getElementById('upColor') as HTMLInputElement;
+const downColorInput = document.getElementById('downColor') as HTMLInputElement;
+const themeSelect = document.getElementById('theme') as HTMLSelectElement;
+const themeImportBtn = document.getElementById('themeImport') as HTMLButtonElement;
+const themeExportBtn = document.getElementById('themeExport') as HTMLButtonElement;
+const themeDeleteBtn = document.getElementById('themeDelete') as HTMLButtonElement;
+const themeFileInput = document.getElementById('themeFile') as HTMLInputElement;
+const themeStatusDisplay = document.getElementById('themeStatus') as HTMLSpanElement;
+const themeColorInputs = document.querySelectorAll('.theme-color') as NodeListOf<HTMLInputElement>;
+const themeFontSelect = document.getElementById('themeFont') as HTMLSelectElement;
+const themeFontSizeInput = document.getElementById('themeFontSize') as HTMLInputElement;
+const themeLineWidthInput = document.getElementById('themeLineWidth') as HTMLInputElement;
 const opacityInput = document.getElementById('opacity') as HTMLInputElement;
 const opacityValueDisplay = document.getElementById('opacityValue') as HTMLSpanElement;
+const snapToEdgesInput = document.getElementById('snapToEdges') as HTMLInputElement;
+const hotkeyToggleVisibleInput = document.getElementById('hotkeyToggleVisible') as HTMLInputElement;
+const hotkeyBringToFrontInput = document.getElementById('hotkeyBringToFront') as HTMLInputElement;
+const hotkeyToggleGhostInput = document.getElementById('hotkeyToggleGhost') as HTMLInputElement;
+const ghostOpacityInput = document.getElementById('ghostOpacity') as HTMLInputElement;
+const ghostOpacityValueDisplay = document.getElementById('ghostOpacityValue') as HTMLSpanElement;
+const sessionInputs = document.querySelectorAll('.session-option') as NodeListOf<HTMLInputElement>;
 const closeBtn = document.getElementById('close') as HTMLButtonElement;
 const cancelBtn = document.getElementById('cancel') as HTMLButtonElement;
 
 let currentSettings: Settings | null = null;
+// Each provider's keys by name; the keys themselves stay in the main process
+let apiKeys: Record<string, ProviderKeys> = {};
+const apiKeyHint = apiKeyStatusDisplay.textContent;
+// Plan limits the user set, per provider; providers without an entry use their free tier
+let apiLimits: Record<string, ApiLimits> = {};
+let budgetStatus: Record<string, BudgetStatus> = {};
+// Custom themes as edited in this session, and the theme picked
+let customThemes: Record<string, Theme> = {};
+let themeId = DEFAULT_THEME_ID;
+const themeHint = themeStatusDisplay.textContent;
+let recentSymbols: SavedSymbol[] = [];
+let favoriteSymbols: SavedSymbol[] = [];
+// The provider and symbol that failed the lookup on the last Save, which saving again keeps
+let unknownInstrument: string | null = null;
+
+PROVIDERS.forEach((provider) => {
+  const option = document.createElement('option');
+  option.value = provider.id;
+  option.textContent = provider.name;
+  providerSelect.appendChild(option);
+});
+
+function updateProviderFields() {
+  const provider = getProvider(providerSelect.value);
+  apiKeyGroup.style.display = provider.requiresApiKey ? 'flex' : 'none';
+  apiKeyLabel.textContent = `${provider.name} API Key`;
+  apiKeyInput.value = '';
+  apiKeyNameInput.value = '';
+  renderApiKeys();
+  instrumentInput.placeholder = provider.symbolHint;
+  apiLimitsLabel.textContent = `${provider.name} Limits (requests per minute / day)`;
+  limitPerMinuteInput.placeholder = String(provider.limits?.perMinute ?? 0);
+  limitPerDayInput.placeholder = String(provider.limits?.perDay ?? 0);
+  const limits = apiLimits[provider.id];
+  limitPerMinuteInput.value = limits ? String(limits.perMinute) : '';
+  limitPerDayInput.value = limits ? String(limits.perDay) : '';
+  updateBudgetDisplay();
+  showInstrumentInfo();
+}
+
+function updateBudgetDisplay() {
+  const status = budgetStatus[providerSelect.value];
+  if (!status) {
+    apiBudgetDisplay.textContent = 'No requests yet today';
+    return;
+  }
+  const day = status.perDay ? `${status.usedDay}/${status.perDay}` : String(status.usedDay);
+  const minute = status.perMinute ? `, ${status.usedMinute}/${status.perMinute} this minute` : '';
+  const backoff = status.backoffUntil ? ', rate limited' : '';
+  apiBudgetDisplay.textContent = `Used today: ${day}${minute}${backoff}`;
+}
+
+// Blank fields fall back to the provider's free-tier limits
+function updateApiLimits() {
+  const provider = getProvider(providerSelect.value);
+  if (!limitPerMinuteInput.value && !limitPerDayInput.value) {
+    delete apiLimits[provider.id];
+    return;
+  }
+  const read = (input: HTMLInputElement) => Math.max(0, parseInt(input.value || input.placeholder) || 0);
+  apiLimits[provider.id] = { perMinute: read(limitPerMinuteInput), perDay: read(limitPerDayInput) };
+}
+
+limitPerMinuteInput.addEventListener('input', updateApiLimits);
+limitPerDayInput.addEventListener('input', updateApiLimits);
+
+window.electronAPI.onApiBudgetUpdated((status) => {
+  budgetStatus = status;
+  updateBudgetDisplay();
+});
+
+providerSelect.addEventListener('change', updateProviderFields);
+
+function renderApiKeys() {
+  const entry = apiKeys[providerSelect.value];
+  const options = (entry?.keys ?? []).map((key) => {
+    const option = document.createElement('option');
+    option.value = key.id;
+    option.textContent = `${key.name} (${key.hint})${key.sessionOnly ? ', this session only' : ''}`;
+    return option;
+  });
+  if (options.length === 0) {
+    const option = document.createElement('option');
+    option.textContent = 'No key added';
+    options.push(option);
+  }
+  apiKeySelect.replaceChildren(...options);
+  if (entry?.active) apiKeySelect.value = entry.active;
+  apiKeySelect.disabled = !entry?.active;
+  apiKeyRemoveBtn.disabled = !entry?.active;
+}
+
+function setApiKeyStatus(message: string, isError = false) {
+  apiKeyStatusDisplay.textContent = message;
+  apiKeyStatusDisplay.classList.toggle('key-status-error', isError);
+}
+
+// Stores whatever is typed in the key field, which then becomes the key in use. Returns
+// false when it couldn't be stored.
+async function addTypedApiKey(): Promise<boolean> {
+  const key = apiKeyInput.value.trim();
+  if (!key) return true;
+  const provider = providerSelect.value;
+  const count = apiKeys[provider]?.keys.length ?? 0;
+  const name = apiKeyNameInput.value.trim() || (count === 0 ? 'Default' : `Key ${count + 1}`);
+  try {
+    await window.electronAPI.addApiKey(provider, name, key);
+  } catch (error) {
+    setApiKeyStatus(error instanceof Error ? error.message : String(error), true);
+    return false;
+  }
+  apiKeyInput.value = '';
+  apiKeyNameInput.value = '';
+  setApiKeyStatus(apiKeyHint);
+  return true;
+}
+
+// Key changes apply at once, Save or not: they live in the key store, not the settings file
+apiKeyAddBtn.addEventListener('click', addTypedApiKey);
+
+apiKeySelect.addEventListener('change', () => {
+  window.electronAPI.setActiveApiKey(providerSelect.value, apiKeySelect.value);
+});
+
+apiKeyRemoveBtn.addEventListener('click', () => {
+  window.electronAPI.removeApiKey(providerSelect.value, apiKeySelect.value);
+});
+
+window.electronAPI.onApiKeysUpdated((keys) => {
+  apiKeys = keys;
+  renderApiKeys();
+});
+
+// Lookups go through the same proxy as chart data, so keyed ones count against the budget
+function createProviderContext(providerId: string, priority: RequestPriority): ProviderContext {
+  return {
+    fetchJson: (url) => window.electronAPI.providerFetch(providerId, priority, url),
+    fetchReferenceJson: (url) => window.electronAPI.providerFetchReference(providerId, url),
+    readFile: (filePath) => window.electronAPI.readDataFile(filePath),
+  };
+}
+
+const searchSymbols = createCachedSearch(async (providerId, query) => {
+  const provider = getProvider(providerId);
+  if (!provider.searchSymbols) return [];
+  // Behind chart updates: a search can wait, a widget's refresh shouldn't
+  return provider.searchSymbols(query, createProviderContext(providerId, 'history'));
+});
+
+function showInstrumentInfoPlaceholders(symbol: string, fromProvider: InstrumentInfo) {
+  const info = resolveInstrumentInfo(symbol, fromProvider);
+  tickSizeInput.placeholder = info.tickSize ? String(info.tickSize) : 'Auto';
+  precisionInput.placeholder = info.precision !== undefined ? String(info.precision) : 'Auto';
+  currencyInput.placeholder = info.currency ?? 'None';
+}
+
+// The price format set for the instrument typed in; placeholders show what applies when
+// a field is left blank
+function showInstrumentInfo() {
+  const symbol = instrumentInput.value.trim();
+  const override = currentSettings?.instrumentInfo?.[symbol];
+  tickSizeInput.value = override?.tickSize !== undefined ? String(override.tickSize) : '';
+  precisionInput.value = override?.precision !== undefined ? String(override.precision) : '';
+  currencyInput.value = override?.currency ?? '';
+  showInstrumentInfoPlaceholders(symbol, {});
+  if (!symbol) return;
+
+  const provider = getProvider(providerSelect.value);
+  loadInstrumentInfo(provider, symbol, createProviderContext(provider.id, 'history'))
+    .then((info) => {
+      if (instrumentInput.value.trim() === symbol && providerSelect.value === provider.id) {
+        showInstrumentInfoPlaceholders(symbol, info);
+      }
+    })
+    .catch(() => {
+      // Placeholders stay as the symbol suggests
+    });
+}
+
+function readInstrumentInfo(): InstrumentInfo | undefined {
+  const info: InstrumentInfo = {};
+  const tickSize = parseFloat(tickSizeInput.value);
+  const precision = parseInt(precisionInput.value);
+  const currency = currencyInput.value.trim().toUpperCase();
+  if (tickSize > 0) info.tickSize = tickSize;
+  if (precision >= 0 && precision <= 10) info.precision = precision;
+  if (currency) info.currency = currency;
+  return Object.keys(info).length > 0 ? info : undefined;
+}
+
+function setInstrumentStatus(message: string, isError = false) {
+  instrumentStatusDisplay.textContent = message;
+  instrumentStatusDisplay.classList.toggle('instrument-status-error', isError);
+}
+
+attachSymbolPicker({
+  input: instrumentInput,
+  list: symbolResultsList,
+  search: searchSymbols,
+  getProvider: () => providerSelect.value,
+  getRecents: () => recentSymbols,
+  getFavorites: () => favoriteSymbols,
+  onPick: (symbol) => {
+    instrumentInput.value = symbol.symbol;
+    setInstrumentStatus('');
+    showInstrumentInfo();
+  },
+  // Favorites are kept at once, Save or not, like API keys
+  onToggleFavorite: (symbol) => {
+    favoriteSymbols = toggleFavoriteSymbol(favoriteSymbols, symbol);
+    window.electronAPI.patchSettings({ favoriteSymbols });
+  },
+});
+
+instrumentInput.addEventListener('input', () => setInstrumentStatus(''));
+
+// Looks the instrument up before saving, so a typo shows here instead of as an error in
+// the widget, and uses the provider's spelling of it. A symbol the provider doesn't list
+// blocks the first Save only; a search that fails (offline, no key) doesn't block it.
+async function checkInstrument(providerId: string, symbol: string): Promise<SavedSymbol | null> {
+  const unchecked: SavedSymbol = { symbol, provider: providerId, name: '', exchange: '', type: '', currency: '' };
+  const saved = [...favoriteSymbols, ...recentSymbols].find((s) => isSameSymbol(s, unchecked));
+  if (saved) return saved;
+  const provider = getProvider(providerId);
+  if (!provider.searchSymbols) return unchecked;
+
+  let matches: SymbolMatch[];
+  setInstrumentStatus('Checking symbol…');
+  try {
+    matches = await searchSymbols(providerId, symbol);
+  } catch {
+    return unchecked;
+  }
+  const match = findExactMatch(matches, symbol);
+  if (match) return { ...match, provider: providerId };
+
+  const key = `${providerId}:${symbol.toUpperCase()}`;
+  if (unknownInstrument === key) return unchecked;
+  unknownInstrument = key;
+  setInstrumentStatus(`${provider.name} has no symbol "${symbol}". Save again to use it anyway.`, true);
+  return null;
+}
+
+// Follow the provider last used for an instrument when it is typed in
+instrumentInput.addEventListener('change', () => {
+  const saved = currentSettings?.providers?.[instrumentInput.value.trim()];
+  if (saved && saved !== providerSelect.value) {
+    providerSelect.value = saved;
+    updateProviderFields();
+  } else {
+    showInstrumentInfo();
+  }
+});
 
 function updateApiCallsEstimate() {
   const interval = parseInt(refreshIntervalInput.value) || 60;
@@ -50,55 +355,292 @@ refreshIntervalInput.addEventListener('input', updateApiCallsEstimate);
 function selectColor(color: string) {
   accentColorInput.value = color;
   colorPresets.forEach(btn => {
-    btn.classList.toggle('selected', btn.dataset.color === color);
+    btn.classList.toggle('selected', btn.dataset.color.toLowerCase() === color.toLowerCase());
   });
 }
 
 colorPresets.forEach(btn => {
   // Set background color from data attribute
   btn.style.backgroundColor = btn.dataset.color;
-  btn.addEventListener('click', () => selectColor(btn.dataset.color));
+  btn.addEventListener('click', () => {
+    selectColor(btn.dataset.color);
+    editTheme();
+  });
 });
 
 accentColorInput.addEventListener('input', () => {
   colorPresets.forEach(btn => btn.classList.remove('selected'));
+  editTheme();
+});
+
+// Themes
+Object.entries(FONTS).forEach(([label, font]) => {
+  const option = document.createElement('option');
+  option.value = font;
+  option.textContent = label;
+  themeFontSelect.appendChild(option);
+});
+
+function getSelectedTheme(): Theme {
+  return customThemes[themeId] ?? BUILT_IN_THEMES[themeId] ?? BUILT_IN_THEMES[DEFAULT_THEME_ID];
+}
+
+function renderThemeOptions() {
+  const toOption = ([id, theme]: [string, Theme]) => {
+    const option = document.createElement('option');
+    option.value = id;
+    option.textContent = theme.name;
+    return option;
+  };
+  const custom = document.createElement('optgroup');
+  custom.label = 'Custom';
+  custom.append(...Object.entries(customThemes).map(toOption));
+  themeSelect.replaceChildren(
+    ...Object.entries(BUILT_IN_THEMES).map(toOption),
+    ...(custom.children.length > 0 ? [custom] : []),
+  );
+  themeSelect.value = themeId;
+  themeDeleteBtn.disabled = isBuiltInTheme(themeId);
+}
+
+function showTheme(theme: Theme) {
+  selectColor(theme.accent);
+  upColorInput.value = theme.up;
+  downColorInput.value = theme.down;
+  themeColorInputs.forEach((input) => {
+    input.value = theme[input.dataset.key as ThemeColorKey];
+  });
+  // Imported themes may name a font that isn't in the list
+  if (![...themeFontSelect.options].some((option) => option.value === theme.font)) {
+    const option = document.createElement('option');
+    option.value = theme.font;
+    option.textContent = theme.font.split(',')[0].replace(/['"]/g, '');
+    themeFontSelect.appendChild(option);
+  }
+  themeFontSelect.value = theme.font;
+  themeFontSizeInput.value = String(theme.fontSize);
+  themeLineWidthInput.value = String(theme.lineWidth);
+}
+
+function readTheme(): Theme {
+  const selected = getSelectedTheme();
+  const read = (input: HTMLInputElement, fallback: number) =>
+    Math.min(Number(input.max), Math.max(Number(input.min), parseFloat(input.value) || fallback));
+  const theme: Theme = {
+    ...selected,
+    accent: accentColorInput.value,
+    up: upColorInput.value,
+    down: downColorInput.value,
+    font: themeFontSelect.value,
+    fontSize: read(themeFontSizeInput, selected.fontSize),
+    lineWidth: read(themeLineWidthInput, selected.lineWidth),
+  };
+  themeColorInputs.forEach((input) => {
+    theme[input.dataset.key as ThemeColorKey] = input.value;
+  });
+  return theme;
+}
+
+function setThemeStatus(message: string, isError = false) {
+  themeStatusDisplay.textContent = message;
+  themeStatusDisplay.classList.toggle('theme-status-error', isError);
+}
+
+function addCustomTheme(theme: Theme) {
+  themeId = `custom-${Date.now().toString(36)}`;
+  customThemes[themeId] = theme;
+  renderThemeOptions();
+}
+
+// Edits change the selected custom theme; built-in themes are copied first
+function editTheme() {
+  const theme = readTheme();
+  if (isBuiltInTheme(themeId)) {
+    addCustomTheme({ ...theme, name: `${theme.name} (custom)` });
+  } else {
+    customThemes[themeId] = theme;
+  }
+}
+
+themeColorInputs.forEach((input) => input.addEventListener('input', editTheme));
+upColorInput.addEventListener('input', editTheme);
+downColorInput.addEventListener('input', editTheme);
+themeFontSelect.addEventListener('change', editTheme);
+themeFontSizeInput.addEventListener('change', editTheme);
+themeLineWidthInput.addEventListener('change', editTheme);
+
+themeSelect.addEventListener('change', () => {
+  themeId = themeSelect.value;
+  renderThemeOptions();
+  showTheme(getSelectedTheme());
+  setThemeStatus(themeHint);
+});
+
+themeDeleteBtn.addEventListener('click', () => {
+  if (isBuiltInTheme(themeId)) return;
+  delete customThemes[themeId];
+  themeId = DEFAULT_THEME_ID;
+  renderThemeOptions();
+  showTheme(getSelectedTheme());
+});
+
+themeExportBtn.addEventListener('click', () => {
+  const theme = getSelectedTheme();
+  const url = URL.createObjectURL(new Blob([JSON.stringify(theme, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${theme.name.replace(/[^\w-]+/g, '-').toLowerCase()}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url));
+});
+
+themeImportBtn.addEventListener('click', () => themeFileInput.click());
+
+themeFileInput.addEventListener('change', async () => {
+  const file = themeFileInput.files?.[0];
+  themeFileInput.value = '';
+  if (!file) return;
+  let theme: Theme | null = null;
+  try {
+    theme = normalizeTheme(JSON.parse(await file.text()));
+  } catch {
+    // Not JSON; reported below
+  }
+  if (!theme) {
+    setThemeStatus(`${file.name} is not a theme file`, true);
+    return;
+  }
+  addCustomTheme(theme);
+  showTheme(theme);
+  setThemeStatus(`Imported "${theme.name}"`);
 });
 
 opacityInput.addEventListener('input', () => {
   opacityValueDisplay.textContent = `${opacityInput.value}%`;
 });
 
+ghostOpacityInput.addEventListener('input', () => {
+  ghostOpacityValueDisplay.textContent = `${ghostOpacityInput.value}%`;
+});
+
+// Hotkey fields record the combination pressed; an empty field disables that hotkey
+[hotkeyToggleVisibleInput, hotkeyBringToFrontInput, hotkeyToggleGhostInput].forEach((input) => {
+  input.placeholder = 'Off';
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'Tab') return;
+    e.preventDefault();
+    if (e.key === 'Backspace' || e.key === 'Delete') {
+      input.value = '';
+      return;
+    }
+    const accelerator = toAccelerator(e);
+    if (accelerator) input.value = accelerator;
+  });
+});
+
 closeBtn.addEventListener('click', () => window.electronAPI.closeSettings());
 cancelBtn.addEventListener('click', () => window.electronAPI.closeSettings());
 
+function parseWatchlist(value: string): string[] {
+  const entries = value.split(',').map((s) => s.trim()).filter(Boolean);
+  return [...new Set(entries)];
+}
+
 form.addEventListener('submit', async (e) => {
   e.preventDefault();
+  // A key typed but not added yet is added on Save
+  if (!await addTypedApiKey()) return;
 
-  const settings: Settings = {
-    instrument: instrumentInput.value.trim() || 'XAU/USD',
-    apiKey: apiKeyInput.value.trim(),
+  const typed = instrumentInput.value.trim();
+  if (!typed) {
+    setInstrumentStatus('Enter an instrument', true);
+    instrumentInput.focus();
+    return;
+  }
+  const checked = await checkInstrument(providerSelect.value, typed);
+  if (!checked) {
+    instrumentInput.focus();
+    return;
+  }
+  const instrument = checked.symbol;
+  const instrumentInfo = { ...currentSettings?.instrumentInfo };
+  const info = readInstrumentInfo();
+  if (info) {
+    instrumentInfo[instrument] = info;
+  } else {
+    delete instrumentInfo[instrument];
+  }
+  // Only what this form edits; the widget's own state and its overlays are left alone
+  const patch: SettingsPatch = {
+    instrument,
+    recentSymbols: addRecentSymbol(recentSymbols, checked),
+    apiLimits,
+    providers: { ...currentSettings?.providers, [instrument]: providerSelect.value },
+    instrumentInfo,
+    watchlist: parseWatchlist(watchlistInput.value),
     timezone: timezoneSelect.value,
     refreshInterval: Math.max(10, parseInt(refreshIntervalInput.value) || 60),
-    accentColor: accentColorInput.value,
-    miniMode: currentSettings?.miniMode ?? false,
+    accentColor: getSelectedTheme().accent,
     opacity: parseInt(opacityInput.value) / 100,
+    ghostOpacity: parseInt(ghostOpacityInput.value) / 100,
+    streaming: streamingInput.checked,
+    streamUrl: streamUrlInput.value.trim(),
+    upColor: getSelectedTheme().up,
+    downColor: getSelectedTheme().down,
+    theme: themeId,
+    customThemes,
+    snapToEdges: snapToEdgesInput.checked,
+    sessions: [...sessionInputs].filter((input) => input.checked).map((input) => input.value),
+    hotkeys: {
+      toggleVisible: hotkeyToggleVisibleInput.value,
+      bringToFront: hotkeyBringToFrontInput.value,
+      toggleGhost: hotkeyToggleGhostInput.value,
+    },
   };
 
-  await window.electronAPI.saveSettings(settings);
+  await window.electronAPI.patchSettings(patch);
   window.electronAPI.closeSettings();
 });
 
 async function loadSettings() {
   currentSettings = await window.electronAPI.getSettings();
   instrumentInput.value = currentSettings.instrument || '';
-  apiKeyInput.value = currentSettings.apiKey || '';
+  watchlistInput.value = (currentSettings.watchlist ?? []).join(', ');
+  recentSymbols = currentSettings.recentSymbols ?? [];
+  favoriteSymbols = currentSettings.favoriteSymbols ?? [];
+  apiKeys = await window.electronAPI.getApiKeys();
+  apiLimits = { ...currentSettings.apiLimits };
+  budgetStatus = await window.electronAPI.getApiBudget();
+  providerSelect.value = currentSettings.providers?.[currentSettings.instrument] ?? DEFAULT_PROVIDER;
+  updateProviderFields();
   timezoneSelect.value = currentSettings.timezone || '';
   refreshIntervalInput.value = String(currentSettings.refreshInterval || 60);
+  streamingInput.checked = currentSettings.streaming ?? false;
+  streamUrlInput.value = currentSettings.streamUrl || '';
   updateApiCallsEstimate();
-  selectColor(currentSettings.accentColor || '#E0E8FF');
+  customThemes = { ...currentSettings.customThemes };
+  const theme = resolveTheme(currentSettings);
+  if (currentSettings.theme && (customThemes[currentSettings.theme] || isBuiltInTheme(currentSettings.theme))) {
+    themeId = currentSettings.theme;
+  } else if (JSON.stringify(theme) !== JSON.stringify(BUILT_IN_THEMES[DEFAULT_THEME_ID])) {
+    // Colors picked before themes existed become a custom theme
+    addCustomTheme({ ...theme, name: 'Custom' });
+  }
+  renderThemeOptions();
+  showTheme(getSelectedTheme());
+  snapToEdgesInput.checked = currentSettings.snapToEdges ?? true;
+  hotkeyToggleVisibleInput.value = getHotkey(currentSettings.hotkeys, 'toggleVisible');
+  hotkeyBringToFrontInput.value = getHotkey(currentSettings.hotkeys, 'bringToFront');
+  hotkeyToggleGhostInput.value = getHotkey(currentSettings.hotkeys, 'toggleGhost');
+  sessionInputs.forEach((input) => {
+    input.checked = currentSettings.sessions?.includes(input.value) ?? false;
+  });
   const opacityPercent = Math.round((currentSettings.opacity ?? 0.75) * 100);
   opacityInput.value = String(opacityPercent);
   opacityValueDisplay.textContent = `${opacityPercent}%`;
+  const ghostOpacityPercent = Math.round((currentSettings.ghostOpacity ?? 0.4) * 100);
+  ghostOpacityInput.value = String(ghostOpacityPercent);
+  ghostOpacityValueDisplay.textContent = `${ghostOpacityPercent}%`;
 }
 
 loadSettings();
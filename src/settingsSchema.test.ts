@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS, SETTINGS_VERSION, migrateSettings, normalizeProfile, validateSettings, validateSettingsPatch } from './settingsSchema';
+
+beforeEach(() => {
+  // Dropped fields are reported with console.warn
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  return () => vi.restoreAllMocks();
+});
+
+describe('migrateSettings', () => {
+  it('moves the single Twelve Data key into apiKeys', () => {
+    const { settings, migrated } = migrateSettings({ apiKey: 'abc', instrument: 'EUR/USD' });
+    expect(migrated).toBe(true);
+    expect(settings).toEqual({ instrument: 'EUR/USD', apiKeys: { twelvedata: 'abc' }, version: SETTINGS_VERSION });
+  });
+
+  it('keeps a per-provider key over the old single one', () => {
+    const { settings } = migrateSettings({ apiKey: 'old', apiKeys: { twelvedata: 'new' } });
+    expect(settings.apiKeys).toEqual({ twelvedata: 'new' });
+  });
+
+  it('turns bare alert prices into alerts', () => {
+    const { settings } = migrateSettings({ version: 1, alerts: { 'EUR/USD': [1.1] } });
+    const alerts = settings.alerts as Record<string, { price: number; id: string }[]>;
+    expect(alerts['EUR/USD']).toHaveLength(1);
+    expect(alerts['EUR/USD'][0]).toMatchObject({ price: 1.1, type: 'price', enabled: true });
+  });
+
+  it('leaves current and newer files alone', () => {
+    expect(migrateSettings({ version: SETTINGS_VERSION, apiKey: 'abc' })).toEqual({
+      settings: { version: SETTINGS_VERSION, apiKey: 'abc' },
+      migrated: false,
+    });
+    expect(migrateSettings({ version: SETTINGS_VERSION + 1 }).settings.version).toBe(SETTINGS_VERSION + 1);
+  });
+});
+
+describe('validateSettings', () => {
+  it('fills in defaults for missing and invalid fields', () => {
+    expect(validateSettings({ instrument: ' ', opacity: 2, refreshInterval: 5, accentColor: 'red' })).toEqual(DEFAULT_SETTINGS);
+    expect(validateSettings('settings')).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('keeps valid fields and drops unknown ones', () => {
+    const settings = validateSettings({ instrument: 'AAPL', opacity: 0.5, upColor: '#00ff00', unknown: true });
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, instrument: 'AAPL', opacity: 0.5, upColor: '#00ff00' });
+  });
+});
+
+describe('validateSettingsPatch', () => {
+  it('keeps only the valid entries of record fields', () => {
+    expect(validateSettingsPatch({
+      timeframes: { AAPL: '1h', MSFT: 5 },
+      instrumentInfo: { ES: { tickSize: 0.25, currency: 'usd' }, NQ: { tickSize: -1 } },
+      apiLimits: { twelvedata: { perMinute: 8, perDay: 800 }, binance: { perMinute: -1, perDay: 0 } },
+    })).toEqual({
+      timeframes: { AAPL: '1h' },
+      instrumentInfo: { ES: { tickSize: 0.25 } },
+      apiLimits: { twelvedata: { perMinute: 8, perDay: 800 } },
+    });
+  });
+});
+
+describe('normalizeProfile', () => {
+  it('needs a name and at least one valid widget', () => {
+    expect(normalizeProfile({ name: 'Trading', widgets: [] })).toBeNull();
+    expect(normalizeProfile({ name: ' ', widgets: [{ id: 'w1' }] })).toBeNull();
+    expect(normalizeProfile({
+      name: ' Trading ',
+      settings: { watchlist: ['AAPL'], streamUrl: 'wss://example.com' },
+      widgets: [{ id: 'w1', instrument: 'AAPL', bounds: { x: 0, y: 0, width: 400, height: 300 } }, { instrument: 'MSFT' }],
+    })).toEqual({
+      name: 'Trading',
+      settings: { watchlist: ['AAPL'] },
+      widgets: [{ id: 'w1', instrument: 'AAPL', bounds: { x: 0, y: 0, width: 400, height: 300 } }],
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { normalizeAlerts, type PriceAlert } from './alerts';
+import { normalizeComparisons, type Comparison } from './comparisons';
+import { normalizeDrawings, type Drawing } from './drawings';
+import type { HotkeySettings } from './hotkeys';
+import { normalizeIndicators, type Indicator } from './indicators';
+import type { ApiLimits, InstrumentInfo } from './providers';
+import { normalizeSavedSymbols, type SavedSymbol } from './symbolSearch';
+import { normalizeTheme, type Theme } from './themes';
+
+// The one definition of settings.json, shared by the main process, preload and both windows
+export interface Settings {
+  version?: number; // schema version the file was written with; see SETTINGS_VERSION
+  instrument: string;
+  apiKeys?: Record<string, string>; // provider id -> API key, from before keys were encrypted; see keyStore
+  providers?: Record<string, string>; // instrument -> provider id
+  instrumentInfo?: Record<string, InstrumentInfo>; // instrument -> price format set by the user, over the provider's
+  timezone: string;
+  refreshInterval: number; // in seconds
+  accentColor: string; // mirrors the theme's accent; older settings have no theme
+  theme?: string; // built-in or custom theme id; accentColor/upColor/downColor mirror it
+  customThemes?: Record<string, Theme>; // id -> user-edited or imported theme
+  miniMode: boolean;
+  opacity: number; // 0.1 to 1.0
+  ghostMode?: boolean; // click-through: mouse events pass to whatever is underneath
+  ghostOpacity?: number; // 0.1 to 1.0, whole-widget opacity while in ghost mode
+  alerts?: Record<string, PriceAlert[]>; // instrument -> alert rules
+  timeframe?: string; // 1min, 5min, 15min, 30min, 1h, 4h, 1day (default for new instruments)
+  timeframes?: Record<string, string>; // instrument -> timeframe
+  watchlist?: string[];
+  recentSymbols?: SavedSymbol[]; // last instruments saved in settings, newest first
+  favoriteSymbols?: SavedSymbol[]; // starred in the symbol picker
+  chartType?: string; // line, area, candlestick, ohlc, heikin-ashi
+  upColor?: string;
+  downColor?: string;
+  streaming?: boolean; // use the WebSocket feed instead of polling
+  streamUrl?: string; // optional custom feed URL, overrides the provider's
+  widgets?: WidgetConfig[]; // one per widget window; never sent to renderers
+  snapToEdges?: boolean; // snap widgets to screen edges while dragging
+  indicators?: Record<string, Indicator[]>; // instrument -> indicators
+  drawings?: Record<string, Drawing[]>; // instrument -> chart drawings
+  comparisons?: Record<string, Comparison[]>; // instrument -> symbols overlaid in percent
+  sessions?: string[]; // trading sessions shaded on intraday charts
+  indicatorPaneHeight?: number; // share of the chart area given to RSI/MACD panes
+  apiLimits?: Record<string, ApiLimits>; // provider id -> the user's plan limits
+  hotkeys?: HotkeySettings; // global shortcuts, active while the app runs
+  profiles?: Record<string, Profile>; // id -> saved layout; never sent to renderers
+  activeProfile?: string; // profile the current layout was last switched to or saved as
+}
+
+// What a window sends to change settings: only the fields it changed, each replaced whole.
+// API keys are managed through the key store, and profiles by the main process.
+export type SettingsPatch = Partial<Omit<Settings, 'version' | 'widgets' | 'apiKeys' | 'profiles' | 'activeProfile'>>;
+
+// Fields each widget window keeps for itself; everything else in Settings is shared
+export const WIDGET_FIELDS = [
+  'instrument', 'timeframe', 'timeframes', 'chartType', 'miniMode', 'opacity', 'ghostMode',
+] as const;
+
+export type WidgetFields = Pick<Settings, typeof WIDGET_FIELDS[number]>;
+
+export interface WidgetBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface WidgetConfig extends WidgetFields {
+  id: string;
+  bounds?: WidgetBounds; // normal (non-mini) geometry
+  miniBounds?: WidgetBounds; // geometry while in mini mode
+  displayId?: number; // monitor the widget was last on
+}
+
+// Shared fields that belong to a layout rather than to the machine it runs on; a profile
+// holds these and its widgets. Keys, the stream URL and app behaviour are left out.
+export const PROFILE_FIELDS = [
+  'watchlist', 'providers', 'alerts', 'indicators', 'drawings', 'comparisons', 'sessions',
+  'theme', 'customThemes', 'accentColor', 'upColor', 'downColor', 'ghostOpacity', 'indicatorPaneHeight',
+] as const;
+
+export interface Profile {
+  name: string;
+  settings: Partial<Pick<Settings, typeof PROFILE_FIELDS[number]>>;
+  widgets: WidgetConfig[]; // each with its instrument, timeframe, mode and geometry
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  instrument: 'XAU/USD',
+  timezone: '',
+  refreshInterval: 60,
+  accentColor: '#E0E8FF',
+  miniMode: false,
+  opacity: 0.75,
+  snapToEdges: true,
+};
+
+// Each step upgrades a settings object from the version at its index to the next one
+const MIGRATIONS: ((settings: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // 0 -> 1: a single Twelve Data key became one key per provider
+  ({ apiKey, ...settings }) => {
+    const apiKeys = isObject(settings.apiKeys) ? settings.apiKeys : {};
+    return typeof apiKey === 'string' && apiKey && !apiKeys.twelvedata
+      ? { ...settings, apiKeys: { ...apiKeys, twelvedata: apiKey } }
+      : settings;
+  },
+  // 1 -> 2: alerts were bare prices; they get ids once, so they can be tracked
+  (settings) => (isObject(settings.alerts)
+    ? { ...settings, alerts: mapRecord(settings.alerts, normalizeAlerts) }
+    : settings),
+];
+
+export const SETTINGS_VERSION = MIGRATIONS.length;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mapRecord<T>(record: Record<string, unknown>, map: (value: unknown) => T | undefined): Record<string, T> {
+  const result: Record<string, T> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const mapped = map(value);
+    if (mapped !== undefined) result[key] = mapped;
+  }
+  return result;
+}
+
+// Validators return the value to keep, or undefined to drop it
+type Validator<T> = (value: unknown) => T | undefined;
+
+const asString: Validator<string> = (value) => (typeof value === 'string' ? value : undefined);
+const asBoolean: Validator<boolean> = (value) => (typeof value === 'boolean' ? value : undefined);
+const asNonEmptyString: Validator<string> = (value) => (typeof value === 'string' && value.trim() ? value : undefined);
+const asHexColor: Validator<string> = (value) =>
+  (typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : undefined);
+const asStringArray: Validator<string[]> = (value) =>
+  (Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : undefined);
+
+function inRange(min: number, max: number): Validator<number> {
+  return (value) => (typeof value === 'number' && value >= min && value <= max ? value : undefined);
+}
+
+function recordOf<T>(item: Validator<T>): Validator<Record<string, T>> {
+  return (value) => (isObject(value) ? mapRecord(value, item) : undefined);
+}
+
+const asApiLimits: Validator<ApiLimits> = (value) => {
+  if (!isObject(value)) return undefined;
+  const { perMinute, perDay } = value;
+  return typeof perMinute === 'number' && perMinute >= 0 && typeof perDay === 'number' && perDay >= 0
+    ? { perMinute, perDay }
+    : undefined;
+};
+
+const asInstrumentInfo: Validator<InstrumentInfo> = (value) => {
+  if (!isObject(value)) return undefined;
+  const { tickSize, precision, currency } = value;
+  const info: InstrumentInfo = {};
+  if (typeof tickSize === 'number' && tickSize > 0) info.tickSize = tickSize;
+  if (Number.isInteger(precision) && (precision as number) >= 0 && (precision as number) <= 10) {
+    info.precision = precision as number;
+  }
+  if (typeof currency === 'string' && /^[A-Z0-9]{2,6}$/.test(currency)) info.currency = currency;
+  return Object.keys(info).length > 0 ? info : undefined;
+};
+
+const asHotkeys: Validator<HotkeySettings> = (value) => {
+  if (!isObject(value)) return undefined;
+  const { toggleVisible, bringToFront, toggleGhost } = value;
+  return {
+    toggleVisible: asString(toggleVisible),
+    bringToFront: asString(bringToFront),
+    toggleGhost: asString(toggleGhost),
+  };
+};
+
+const asBounds: Validator<WidgetBounds> = (value) => {
+  if (!isObject(value)) return undefined;
+  const { x, y, width, height } = value;
+  return [x, y, width, height].every(Number.isFinite)
+    ? { x: x as number, y: y as number, width: width as number, height: height as number }
+    : undefined;
+};
+
+const asWidgetConfig: Validator<WidgetConfig> = (value) => {
+  if (!isObject(value) || !asNonEmptyString(value.id)) return undefined;
+  const widget: Record<string, unknown> = { ...pickValidFields(value, WIDGET_FIELDS), id: value.id };
+  const bounds = asBounds(value.bounds);
+  const miniBounds = asBounds(value.miniBounds);
+  if (bounds) widget.bounds = bounds;
+  if (miniBounds) widget.miniBounds = miniBounds;
+  if (Number.isInteger(value.displayId)) widget.displayId = value.displayId;
+  return widget as unknown as WidgetConfig;
+};
+
+const asWidgets: Validator<WidgetConfig[]> = (value) =>
+  (Array.isArray(value) ? value.map(asWidgetConfig).filter((w): w is WidgetConfig => !!w) : undefined);
+
+// A profile needs a name and at least one widget to open
+const asProfile: Validator<Profile> = (value) => {
+  if (!isObject(value) || !asNonEmptyString(value.name)) return undefined;
+  const widgets = asWidgets(value.widgets);
+  if (!widgets || widgets.length === 0) return undefined;
+  return {
+    name: (value.name as string).trim().slice(0, 60),
+    settings: isObject(value.settings) ? pickValidFields(value.settings, PROFILE_FIELDS) : {},
+    widgets,
+  };
+};
+
+const FIELD_VALIDATORS: { [K in keyof Settings]-?: Validator<Settings[K]> } = {
+  version: (value) => (Number.isInteger(value) && (value as number) >= 0 ? value as number : undefined),
+  instrument: asNonEmptyString,
+  apiKeys: recordOf(asString),
+  providers: recordOf(asString),
+  instrumentInfo: recordOf(asInstrumentInfo),
+  timezone: asString,
+  refreshInterval: inRange(10, 86_400),
+  accentColor: asHexColor,
+  theme: asNonEmptyString,
+  customThemes: recordOf((value) => normalizeTheme(value) ?? undefined),
+  miniMode: asBoolean,
+  opacity: inRange(0.1, 1),
+  ghostMode: asBoolean,
+  ghostOpacity: inRange(0.1, 1),
+  alerts: recordOf((value) => (Array.isArray(value) ? normalizeAlerts(value) : undefined)),
+  timeframe: asString,
+  timeframes: recordOf(asString),
+  watchlist: asStringArray,
+  recentSymbols: (value) => (Array.isArray(value) ? normalizeSavedSymbols(value) : undefined),
+  favoriteSymbols: (value) => (Array.isArray(value) ? normalizeSavedSymbols(value) : undefined),
+  chartType: asString,
+  upColor: asHexColor,
+  downColor: asHexColor,
+  streaming: asBoolean,
+  streamUrl: asString,
+  widgets: asWidgets,
+  snapToEdges: asBoolean,
+  indicators: recordOf((value) => (Array.isArray(value) ? normalizeIndicators(value) : undefined)),
+  drawings: recordOf((value) => (Array.isArray(value) ? normalizeDrawings(value) : undefined)),
+  comparisons: recordOf((value) => (Array.isArray(value) ? normalizeComparisons(value) : undefined)),
+  sessions: asStringArray,
+  indicatorPaneHeight: inRange(0.15, 0.6),
+  apiLimits: recordOf(asApiLimits),
+  hotkeys: asHotkeys,
+  profiles: recordOf(asProfile),
+  activeProfile: asNonEmptyString,
+};
+
+function pickValidFields(source: Record<string, unknown>, keys: readonly (keyof Settings)[]): Partial<Settings> {
+  const result: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (source[key] === undefined) continue;
+    const value = FIELD_VALIDATORS[key](source[key]);
+    if (value === undefined) {
+      console.warn(`Ignoring invalid setting "${key}"`);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result as Partial<Settings>;
+}
+
+// The known, well-formed fields of untrusted input (a settings file, or a patch from a
+// window); anything else is dropped
+export function validateSettingsPatch(raw: unknown): Partial<Settings> {
+  return isObject(raw) ? pickValidFields(raw, Object.keys(FIELD_VALIDATORS) as (keyof Settings)[]) : {};
+}
+
+export function validateSettings(raw: unknown): Settings {
+  return { ...DEFAULT_SETTINGS, ...validateSettingsPatch(raw) };
+}
+
+// Runs the steps between the file's version and this one. Files from a newer version are
+// left as they are; validation still drops what this version doesn't understand.
+export function migrateSettings(raw: Record<string, unknown>): { settings: Record<string, unknown>; migrated: boolean } {
+  const from = Number.isInteger(raw.version) ? raw.version as number : 0;
+  let settings = raw;
+  for (let version = from; version < SETTINGS_VERSION; version++) {
+    settings = MIGRATIONS[version](settings);
+  }
+  return { settings: { ...settings, version: Math.max(from, SETTINGS_VERSION) }, migrated: from < SETTINGS_VERSION };
+}
+
+// Validates a profile read from a file; null when it isn't one
+export function normalizeProfile(raw: unknown): Profile | null {
+  return asProfile(raw) ?? null;
+}
+
+export function isSettingsObject(value: unknown): value is Record<string, unknown> {
+  return isObject(value);
+}
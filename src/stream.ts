@@ -0,0 +1,126 @@
+import type { PriceStreamSpec, Tick } from './providers';
+import type { StreamEventType } from './providerProxy';
+
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+export type StreamStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface PriceStreamOptions {
+  spec: PriceStreamSpec;
+  provider: string; // whose API key the main process fills into the URL
+  symbol: string;
+  onTick: (tick: Tick) => void;
+  // reconnected is true for every open after the first, so callers can backfill the gap
+  onOpen: (reconnected: boolean) => void;
+  onStatus: (status: StreamStatus, detail?: string) => void;
+}
+
+export interface PriceStream {
+  close: () => void;
+}
+
+// A socket opened by the main process on this window's behalf, so API keys in stream
+// URLs never reach the renderer
+interface RelaySocket {
+  send: (data: string) => void;
+  close: () => void;
+}
+
+type RelayHandler = (type: StreamEventType, data?: string) => void;
+
+const relayHandlers = new Map<string, RelayHandler>();
+let relayListening = false;
+let lastStreamId = 0;
+
+function openRelaySocket(provider: string, url: string, handler: RelayHandler): RelaySocket {
+  if (!relayListening) {
+    window.electronAPI.onStreamEvent((streamId, type, data) => relayHandlers.get(streamId)?.(type, data));
+    relayListening = true;
+  }
+  const streamId = String(++lastStreamId);
+  relayHandlers.set(streamId, handler);
+  window.electronAPI.openStream(streamId, provider, url);
+  return {
+    send: (data) => window.electronAPI.sendStream(streamId, data),
+    close: () => {
+      relayHandlers.delete(streamId);
+      window.electronAPI.closeStream(streamId);
+    },
+  };
+}
+
+// Opens a price socket and keeps it open, reconnecting with exponential backoff
+export function openPriceStream(options: PriceStreamOptions): PriceStream {
+  const { spec, provider, symbol, onTick, onOpen, onStatus } = options;
+
+  let socket: RelaySocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let backoffMs = INITIAL_BACKOFF_MS;
+  let hasOpened = false;
+  let closed = false;
+
+  function scheduleReconnect() {
+    if (closed) return;
+    // Equal jitter (half fixed, half random) keeps several widgets from reconnecting in lockstep
+    const delay = Math.round(backoffMs / 2 + Math.random() * backoffMs / 2);
+    onStatus('reconnecting', `retrying in ${Math.ceil(delay / 1000)}s`);
+    reconnectTimer = setTimeout(connect, delay);
+    backoffMs = Math.min(MAX_BACKOFF_MS, backoffMs * 2);
+  }
+
+  function connect() {
+    reconnectTimer = null;
+    onStatus(hasOpened ? 'reconnecting' : 'connecting');
+
+    socket = openRelaySocket(provider, spec.url(symbol), (type, data) => {
+      if (type === 'open') {
+        backoffMs = INITIAL_BACKOFF_MS;
+        if (spec.subscribeMessage) {
+          socket?.send(spec.subscribeMessage(symbol));
+        }
+        onStatus('open');
+        onOpen(hasOpened);
+        hasOpened = true;
+      } else if (type === 'message') {
+        let message: unknown;
+        try {
+          message = JSON.parse(String(data));
+        } catch {
+          return;
+        }
+        const tick = spec.parseTick(message);
+        if (tick && Number.isFinite(tick.price)) {
+          onTick(tick);
+        }
+      } else if (type === 'close') {
+        // Errors included: the main process reports them as a close
+        socket?.close();
+        socket = null;
+        scheduleReconnect();
+      } else {
+        // The URL itself is bad (or has no key to fill in); retrying won't help
+        socket?.close();
+        socket = null;
+        onStatus('closed', data ?? 'Invalid stream URL');
+      }
+    });
+  }
+
+  connect();
+
+  return {
+    close() {
+      closed = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      if (socket) {
+        socket.close();
+        socket = null;
+      }
+      onStatus('closed');
+    },
+  };
+}
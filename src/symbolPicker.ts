@@ -0,0 +1,181 @@
+import type { SymbolMatch } from './providers';
+import { describeMatch, isSameSymbol, type SavedSymbol, type SymbolSearch } from './symbolSearch';
+
+export interface SymbolPickerOptions {
+  input: HTMLInputElement;
+  list: HTMLElement;
+  search: SymbolSearch;
+  getProvider: () => string;
+  getRecents: () => SavedSymbol[];
+  getFavorites: () => SavedSymbol[];
+  onPick: (symbol: SavedSymbol) => void;
+  onToggleFavorite: (symbol: SavedSymbol) => void;
+}
+
+export interface SymbolPicker {
+  refresh: () => void;
+  close: () => void;
+}
+
+interface PickerContent {
+  sections: [string, SavedSymbol[]][];
+  note: string;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+// Search-as-you-type under the instrument field. An empty field lists favorites and recent
+// symbols; typing filters those and asks the provider, once typing pauses.
+export function attachSymbolPicker(options: SymbolPickerOptions): SymbolPicker {
+  const { input, list, search, getProvider } = options;
+  let rows: { element: HTMLElement; symbol: SavedSymbol }[] = [];
+  let highlighted = -1;
+  // What is on screen: saved symbols by section, then a note on the provider's search
+  let current: PickerContent = { sections: [], note: '' };
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped on every keystroke and on close, so a slow answer to an older query is dropped
+  let generation = 0;
+
+  const isOpen = () => list.classList.contains('open');
+
+  function close() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    generation++;
+    list.classList.remove('open');
+    highlighted = -1;
+  }
+
+  function highlight(index: number) {
+    highlighted = index;
+    rows.forEach((row, i) => row.element.classList.toggle('highlighted', i === index));
+    rows[index]?.element.scrollIntoView({ block: 'nearest' });
+  }
+
+  function pick(symbol: SavedSymbol) {
+    close();
+    options.onPick(symbol);
+  }
+
+  function createRow(symbol: SavedSymbol): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'symbol-row';
+    row.setAttribute('role', 'option');
+    row.addEventListener('click', () => pick(symbol));
+
+    const text = document.createElement('div');
+    text.className = 'symbol-text';
+    const name = document.createElement('div');
+    name.className = 'symbol-name';
+    name.append(Object.assign(document.createElement('strong'), { textContent: symbol.symbol }));
+    if (symbol.name && symbol.name !== symbol.symbol) name.append(` ${symbol.name}`);
+    const meta = Object.assign(document.createElement('div'), { className: 'symbol-meta', textContent: describeMatch(symbol) });
+    text.append(name, meta);
+
+    const favorite = options.getFavorites().some((f) => isSameSymbol(f, symbol));
+    const star = document.createElement('button');
+    star.type = 'button';
+    star.className = 'symbol-star';
+    star.classList.toggle('active', favorite);
+    star.textContent = favorite ? '★' : '☆';
+    star.title = favorite ? 'Remove from favorites' : 'Add to favorites';
+    star.addEventListener('click', (e) => {
+      e.stopPropagation();
+      options.onToggleFavorite(symbol);
+      render(current);
+    });
+
+    row.append(text, star);
+    return row;
+  }
+
+  function render(content: PickerContent) {
+    current = content;
+    rows = [];
+    const elements: HTMLElement[] = [];
+    for (const [title, symbols] of content.sections) {
+      if (symbols.length === 0) continue;
+      if (title) elements.push(Object.assign(document.createElement('div'), { className: 'symbol-section', textContent: title }));
+      for (const symbol of symbols) {
+        const element = createRow(symbol);
+        rows.push({ element, symbol });
+        elements.push(element);
+      }
+    }
+    if (content.note) {
+      elements.push(Object.assign(document.createElement('div'), { className: 'symbol-note', textContent: content.note }));
+    }
+    list.replaceChildren(...elements);
+    list.classList.toggle('open', elements.length > 0);
+    highlight(Math.min(highlighted, rows.length - 1));
+  }
+
+  function refresh() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const query = input.value.trim();
+    const provider = getProvider();
+    const run = ++generation;
+    highlighted = -1;
+    const saved = (symbols: SavedSymbol[]) => symbols.filter((s) => s.provider === provider);
+    const favorites = saved(options.getFavorites());
+    const recents = saved(options.getRecents()).filter((r) => !favorites.some((f) => isSameSymbol(f, r)));
+
+    if (!query) {
+      render({ sections: [['Favorites', favorites], ['Recent', recents]], note: '' });
+      return;
+    }
+
+    const wanted = query.toLowerCase();
+    const matching = [...favorites, ...recents].filter((s) =>
+      s.symbol.toLowerCase().includes(wanted) || s.name.toLowerCase().includes(wanted));
+    render({ sections: [['', matching]], note: 'Searching…' });
+
+    timer = setTimeout(async () => {
+      timer = null;
+      let results: SymbolMatch[];
+      try {
+        results = await search(provider, query);
+      } catch (error) {
+        if (run !== generation) return;
+        render({ sections: [['', matching]], note: error instanceof Error ? error.message : String(error) });
+        return;
+      }
+      if (run !== generation) return;
+      const found = results
+        .map((match): SavedSymbol => ({ ...match, provider }))
+        .filter((match) => !matching.some((s) => isSameSymbol(s, match)));
+      const note = matching.length + found.length === 0 ? 'No matching symbols' : '';
+      render({ sections: [['', matching], ['', found]], note });
+    }, SEARCH_DELAY_MS);
+  }
+
+  input.setAttribute('autocomplete', 'off');
+  input.addEventListener('input', refresh);
+  input.addEventListener('focus', refresh);
+  input.addEventListener('blur', close);
+  // Clicking a row must not take focus from the field, which would close the list first
+  list.addEventListener('mousedown', (e) => e.preventDefault());
+
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!isOpen()) {
+        refresh();
+        return;
+      }
+      if (rows.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      highlight(highlighted < 0 && step < 0 ? rows.length - 1 : (highlighted + step + rows.length) % rows.length);
+    } else if (e.key === 'Enter' && isOpen() && rows[highlighted]) {
+      // Picks the highlighted row instead of submitting the form
+      e.preventDefault();
+      pick(rows[highlighted].symbol);
+    } else if (e.key === 'Escape' && isOpen()) {
+      e.preventDefault();
+      close();
+    }
+  });
+
+  return { refresh, close };
+}
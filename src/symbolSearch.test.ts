@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import type { SymbolMatch } from './providers';
+import {
+  addRecentSymbol,
+  createCachedSearch,
+  findExactMatch,
+  normalizeSavedSymbols,
+  toggleFavoriteSymbol,
+  type SavedSymbol,
+} from './symbolSearch';
+
+function match(symbol: string, overrides: Partial<SymbolMatch> = {}): SymbolMatch {
+  return { symbol, name: '', exchange: '', type: '', currency: '', ...overrides };
+}
+
+function saved(symbol: string, provider = 'binance'): SavedSymbol {
+  return { ...match(symbol), provider };
+}
+
+// A local stand-in for a provider lookup that records what it was asked
+function createStubSearch(results: Record<string, SymbolMatch[]>) {
+  const calls: string[] = [];
+  const search = async (provider: string, query: string) => {
+    calls.push(`${provider}:${query}`);
+    if (query === 'fail') throw new Error('offline');
+    return results[query] ?? [];
+  };
+  return { search, calls };
+}
+
+describe('createCachedSearch', () => {
+  it('answers a repeated query from the cache, ignoring case and spaces', async () => {
+    const stub = createStubSearch({ btc: [match('BTC/USDT')] });
+    const search = createCachedSearch(stub.search);
+
+    expect(await search('binance', 'btc')).toEqual([match('BTC/USDT')]);
+    expect(await search('binance', ' BTC ')).toEqual([match('BTC/USDT')]);
+    expect(stub.calls).toEqual(['binance:btc']);
+  });
+
+  it('keeps each provider apart', async () => {
+    const stub = createStubSearch({});
+    const search = createCachedSearch(stub.search);
+
+    await search('binance', 'eur');
+    await search('twelvedata', 'eur');
+    expect(stub.calls).toEqual(['binance:eur', 'twelvedata:eur']);
+  });
+
+  it('asks again once the cached answer is too old', async () => {
+    const stub = createStubSearch({});
+    const search = createCachedSearch(stub.search, 0);
+
+    await search('binance', 'eth');
+    await search('binance', 'eth');
+    expect(stub.calls).toHaveLength(2);
+  });
+
+  it("doesn't keep failed searches", async () => {
+    const stub = createStubSearch({});
+    const search = createCachedSearch(stub.search);
+
+    await expect(search('binance', 'fail')).rejects.toThrow('offline');
+    await expect(search('binance', 'fail')).rejects.toThrow('offline');
+    expect(stub.calls).toHaveLength(2);
+  });
+});
+
+describe('findExactMatch', () => {
+  const matches = [match('BTCUSDT'), match('AAPL'), match('aapl.mx')];
+
+  it('matches regardless of case', () => {
+    expect(findExactMatch(matches, 'Aapl')).toEqual(match('AAPL'));
+  });
+
+  it('falls back to a match that differs only in separators', () => {
+    expect(findExactMatch(matches, 'btc/usdt')).toEqual(match('BTCUSDT'));
+    expect(findExactMatch(matches, 'BTC-USDT')).toEqual(match('BTCUSDT'));
+  });
+
+  it('prefers the exact spelling over one with other separators', () => {
+    expect(findExactMatch([match('EURUSD'), match('EUR/USD')], 'EUR/USD')).toEqual(match('EUR/USD'));
+  });
+
+  it('is undefined when nothing matches the whole symbol', () => {
+    expect(findExactMatch(matches, 'AAP')).toBeUndefined();
+  });
+});
+
+describe('recent and favorite symbols', () => {
+  it('puts the newest recent symbol first, once, and keeps eight', () => {
+    let recents: SavedSymbol[] = [];
+    for (let i = 0; i < 10; i++) {
+      recents = addRecentSymbol(recents, saved(`S${i}`));
+    }
+    recents = addRecentSymbol(recents, saved('s5'));
+    expect(recents.map((r) => r.symbol)).toEqual(['s5', 'S9', 'S8', 'S7', 'S6', 'S4', 'S3', 'S2']);
+  });
+
+  it('toggles a favorite per provider', () => {
+    const favorites = toggleFavoriteSymbol([], saved('EUR/USD', 'twelvedata'));
+    expect(toggleFavoriteSymbol(favorites, saved('EUR/USD', 'alphavantage'))).toHaveLength(2);
+    expect(toggleFavoriteSymbol(favorites, saved('eur/usd', 'twelvedata'))).toEqual([]);
+  });
+
+  it('drops malformed saved symbols', () => {
+    expect(normalizeSavedSymbols([
+      { symbol: 'AAPL', provider: 'twelvedata', currency: 'USD', exchange: 5 },
+      { symbol: ' ', provider: 'twelvedata' },
+      { symbol: 'MSFT' },
+      'AAPL',
+    ])).toEqual([{ symbol: 'AAPL', provider: 'twelvedata', name: '', exchange: '', type: '', currency: 'USD' }]);
+  });
+});
@@ -0,0 +1,79 @@
+import type { SymbolMatch } from './providers';
+
+// A symbol remembered in the picker (recent or favorite), with the provider it came from
+export interface SavedSymbol extends SymbolMatch {
+  provider: string;
+}
+
+export type SymbolSearch = (provider: string, query: string) => Promise<SymbolMatch[]>;
+
+const CACHE_MS = 10 * 60_000;
+const MAX_CACHED_QUERIES = 200;
+const MAX_RECENT = 8;
+
+// Wraps any search (a provider lookup, or a stub) so a query asked again, by typing back
+// over it or validating on save, is answered from memory. Failed searches aren't kept.
+export function createCachedSearch(search: SymbolSearch, cacheMs = CACHE_MS): SymbolSearch {
+  const cache = new Map<string, { at: number; results: Promise<SymbolMatch[]> }>();
+  return (provider, query) => {
+    const key = `${provider}:${query.trim().toLowerCase()}`;
+    const hit = cache.get(key);
+    if (hit && Date.now() - hit.at < cacheMs) return hit.results;
+
+    const results = search(provider, query.trim());
+    cache.delete(key);
+    cache.set(key, { at: Date.now(), results });
+    results.catch(() => {
+      if (cache.get(key)?.results === results) cache.delete(key);
+    });
+    // Maps keep insertion order, so this drops the query asked longest ago
+    if (cache.size > MAX_CACHED_QUERIES) {
+      cache.delete(cache.keys().next().value);
+    }
+    return results;
+  };
+}
+
+function normalize(symbol: string, ignoreSeparators: boolean): string {
+  const upper = symbol.trim().toUpperCase();
+  return ignoreSeparators ? upper.replace(/[/\-_\s]/g, '') : upper;
+}
+
+// The result for exactly this symbol, ignoring case; failing that, one that differs only
+// in separators (BTCUSDT for BTC/USDT), so the provider's spelling can be used instead
+export function findExactMatch(matches: SymbolMatch[], symbol: string): SymbolMatch | undefined {
+  return matches.find((m) => normalize(m.symbol, false) === normalize(symbol, false))
+    ?? matches.find((m) => normalize(m.symbol, true) === normalize(symbol, true));
+}
+
+export function isSameSymbol(a: SavedSymbol, b: SavedSymbol): boolean {
+  return a.provider === b.provider && normalize(a.symbol, false) === normalize(b.symbol, false);
+}
+
+// "NASDAQ · Common Stock · USD", leaving out what the provider didn't say
+export function describeMatch(match: SymbolMatch): string {
+  return [match.exchange, match.type, match.currency].filter(Boolean).join(' · ');
+}
+
+// Newest first, each symbol once
+export function addRecentSymbol(recents: SavedSymbol[], entry: SavedSymbol): SavedSymbol[] {
+  return [entry, ...recents.filter((r) => !isSameSymbol(r, entry))].slice(0, MAX_RECENT);
+}
+
+export function toggleFavoriteSymbol(favorites: SavedSymbol[], entry: SavedSymbol): SavedSymbol[] {
+  return favorites.some((f) => isSameSymbol(f, entry))
+    ? favorites.filter((f) => !isSameSymbol(f, entry))
+    : [...favorites, entry];
+}
+
+// Validates saved symbols from settings; malformed entries are dropped
+export function normalizeSavedSymbols(raw: unknown): SavedSymbol[] {
+  if (!Array.isArray(raw)) return [];
+  const text = (value: unknown) => (typeof value === 'string' ? value : '');
+  return raw.flatMap((entry): SavedSymbol[] => {
+    if (!entry || typeof entry !== 'object') return [];
+    const { symbol, provider, name, exchange, type, currency } = entry as Record<string, unknown>;
+    if (typeof symbol !== 'string' || !symbol.trim() || typeof provider !== 'string') return [];
+    return [{ symbol, provider, name: text(name), exchange: text(exchange), type: text(type), currency: text(currency) }];
+  });
+}
@@ -0,0 +1,151 @@
+// Colors are #rrggbb so they fit color inputs; translucency is applied where they are used
+export interface Theme {
+  name: string;
+  background: string; // widget, dropdown and tooltip background; the widget's alpha is the opacity setting
+  text: string; // prices and titles, and (dimmed) every other label and border
+  axis: string; // axis tick labels
+  grid: string; // day boundaries and trading-gap markers
+  accent: string; // price line and tooltip values
+  up: string;
+  down: string;
+  alert: string; // alert lines and their off-screen markers
+  crosshair: string;
+  font: string; // CSS font-family
+  fontSize: number; // axis labels, in px; canvas labels are a pixel smaller
+  lineWidth: number; // price line, in px
+}
+
+// The theme colors a pre-theme settings file may carry
+interface ThemeSettings {
+  theme?: string;
+  customThemes?: Record<string, Theme>;
+  accentColor?: string;
+  upColor?: string;
+  downColor?: string;
+}
+
+export const FONTS: Record<string, string> = {
+  System: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+  'Sans-serif': 'Helvetica, Arial, sans-serif',
+  Serif: 'Georgia, serif',
+  Monospace: "'SF Mono', Consolas, 'DejaVu Sans Mono', monospace",
+};
+
+export const DEFAULT_THEME_ID = 'dark';
+
+export const BUILT_IN_THEMES: Record<string, Theme> = {
+  dark: {
+    name: 'Dark',
+    background: '#141414',
+    text: '#ffffff',
+    axis: '#ffffff',
+    grid: '#ffffff',
+    accent: '#e0e8ff',
+    up: '#2ecc71',
+    down: '#e74c3c',
+    alert: '#ff6464',
+    crosshair: '#ffffff',
+    font: FONTS.System,
+    fontSize: 10,
+    lineWidth: 2,
+  },
+  light: {
+    name: 'Light',
+    background: '#f4f5f7',
+    text: '#1a1a1a',
+    axis: '#333333',
+    grid: '#000000',
+    accent: '#2c5aa0',
+    up: '#1e9e57',
+    down: '#d63c2f',
+    alert: '#d62f2f',
+    crosshair: '#000000',
+    font: FONTS.System,
+    fontSize: 10,
+    lineWidth: 2,
+  },
+  contrast: {
+    name: 'High contrast',
+    background: '#000000',
+    text: '#ffffff',
+    axis: '#ffffff',
+    grid: '#ffffff',
+    accent: '#ffd700',
+    up: '#00e676',
+    down: '#ff5252',
+    alert: '#ff3d3d',
+    crosshair: '#ffffff',
+    font: FONTS.System,
+    fontSize: 11,
+    lineWidth: 2.5,
+  },
+};
+
+const COLOR_KEYS = ['background', 'text', 'axis', 'grid', 'accent', 'up', 'down', 'alert', 'crosshair'] as const;
+
+export type ThemeColorKey = typeof COLOR_KEYS[number];
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+export function isBuiltInTheme(id: string): boolean {
+  return id in BUILT_IN_THEMES;
+}
+
+// The selected theme. Settings saved before themes existed get the dark theme in the
+// accent and up/down colors chosen back then.
+export function resolveTheme(settings: ThemeSettings): Theme {
+  if (settings.theme) {
+    return settings.customThemes?.[settings.theme] ?? BUILT_IN_THEMES[settings.theme] ?? BUILT_IN_THEMES.dark;
+  }
+  const dark = BUILT_IN_THEMES.dark;
+  return {
+    ...dark,
+    accent: isHexColor(settings.accentColor) ? settings.accentColor.toLowerCase() : dark.accent,
+    up: isHexColor(settings.upColor) ? settings.upColor.toLowerCase() : dark.up,
+    down: isHexColor(settings.downColor) ? settings.downColor.toLowerCase() : dark.down,
+  };
+}
+
+// Validates an imported theme. Missing or invalid fields fall back to the dark theme;
+// returns null when nothing in it is usable.
+export function normalizeTheme(raw: unknown): Theme | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const entry = raw as Record<string, unknown>;
+  const theme: Theme = { ...BUILT_IN_THEMES.dark, name: 'Imported' };
+  let fields = 0;
+  for (const key of COLOR_KEYS) {
+    const value = entry[key];
+    if (isHexColor(value)) {
+      theme[key] = value.toLowerCase();
+      fields++;
+    }
+  }
+  if (fields === 0) return null;
+  if (typeof entry.name === 'string' && entry.name.trim()) theme.name = entry.name.trim().slice(0, 40);
+  if (typeof entry.font === 'string' && entry.font.trim()) theme.font = entry.font.trim();
+  if (typeof entry.fontSize === 'number' && entry.fontSize >= 8 && entry.fontSize <= 16) theme.fontSize = entry.fontSize;
+  if (typeof entry.lineWidth === 'number' && entry.lineWidth >= 0.5 && entry.lineWidth <= 5) theme.lineWidth = entry.lineWidth;
+  return theme;
+}
+
+export function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result ? {
+    r: parseInt(result[1], 16),
+    g: parseInt(result[2], 16),
+    b: parseInt(result[3], 16)
+  } : { r: 224, g: 232, b: 255 }; // fallback
+}
+
+export function withAlpha(hex: string, alpha: number): string {
+  const { r, g, b } = hexToRgb(hex);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+// "r, g, b" for CSS variables used as rgba(var(--name), alpha)
+export function toRgbTriplet(hex: string): string {
+  const { r, g, b } = hexToRgb(hex);
+  return `${r}, ${g}, ${b}`;
+}
@@ -0,0 +1,80 @@
+const INTERVAL_MS: Record<string, number> = {
+  '1min': 60_000,
+  '5min': 5 * 60_000,
+  '15min': 15 * 60_000,
+  '30min': 30 * 60_000,
+  '1h': 60 * 60_000,
+  '4h': 4 * 60 * 60_000,
+  '1day': 24 * 60 * 60_000,
+};
+
+export function getIntervalMs(interval: string): number {
+  return INTERVAL_MS[interval] ?? INTERVAL_MS['5min'];
+}
+
+// Offset (ms) of a time zone from UTC at the given instant
+function getTimeZoneOffset(epoch: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(epoch));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const local = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return local - epoch;
+}
+
+// Parse a zone-less "YYYY-MM-DD[ HH:MM[:SS]]" string as wall time in the given zone
+export function zonedDateTimeToEpoch(datetime: string, timeZone: string): number {
+  const [datePart, timePart = '00:00:00'] = datetime.trim().split(/[ T]/);
+  const asUtc = Date.parse(`${datePart}T${timePart}Z`);
+  if (Number.isNaN(asUtc)) return NaN;
+  if (timeZone === 'UTC') return asUtc;
+  return asUtc - getTimeZoneOffset(asUtc, timeZone);
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+  hour: number;
+  minute: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Building a formatter is far slower than using one, and axes format hundreds of bars
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Calendar fields of an instant as seen in a time zone
+export function getZonedParts(epoch: number, timeZone: string): ZonedParts {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(new Date(epoch));
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+  };
+}
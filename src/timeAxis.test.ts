@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { buildTimeTicks, findGaps, formatBarTime, getSessionRanges } from './timeAxis';
+
+const HOUR = 3_600_000;
+const DAY = 24 * HOUR;
+// Monday 1 January 2024, 00:00 UTC
+const MONDAY = Date.UTC(2024, 0, 1);
+
+function series(start: number, step: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => start + i * step);
+}
+
+describe('findGaps', () => {
+  it('joins weekends on daily bars and marks longer breaks', () => {
+    const days = [0, 1, 2, 3, 4, 7, 8, 16].map((d) => MONDAY + d * DAY);
+    expect(findGaps(days, DAY)).toEqual([7]);
+  });
+
+  it('marks overnight closes on intraday bars', () => {
+    const times = [...series(MONDAY + 14 * HOUR, HOUR / 4, 4), ...series(MONDAY + DAY + 14 * HOUR, HOUR / 4, 4)];
+    expect(findGaps(times, HOUR / 4)).toEqual([4]);
+  });
+
+  it('allows an hour of missing minute bars', () => {
+    expect(findGaps([MONDAY, MONDAY + HOUR, MONDAY + 2 * HOUR + 60_000], 60_000)).toEqual([2]);
+  });
+});
+
+describe('buildTimeTicks', () => {
+  it('labels hours and marks the new day on intraday bars', () => {
+    const ticks = buildTimeTicks(series(MONDAY + 20 * HOUR, HOUR, 8), 'UTC', HOUR, 10);
+    expect(ticks.map((t) => t.label)).toEqual(['21:00', '22:00', '23:00', '2 Jan', '01:00', '02:00', '03:00']);
+    expect(ticks.filter((t) => t.major).map((t) => t.index)).toEqual([4]);
+  });
+
+  it('moves to coarser steps until the ticks fit', () => {
+    const ticks = buildTimeTicks(series(MONDAY, HOUR, 48), 'UTC', HOUR, 8);
+    expect(ticks.map((t) => t.label)).toEqual(['06:00', '12:00', '18:00', '2 Jan', '06:00', '12:00', '18:00']);
+  });
+
+  it('follows the calendar on daily bars', () => {
+    const ticks = buildTimeTicks(series(Date.UTC(2023, 11, 25), DAY, 14), 'UTC', DAY, 3);
+    expect(ticks).toEqual([{ index: 7, label: '2024', major: true }]);
+  });
+
+  it('uses the given time zone', () => {
+    const ticks = buildTimeTicks(series(MONDAY + 14 * HOUR, HOUR, 2), 'Asia/Tokyo', HOUR, 10);
+    expect(ticks).toEqual([{ index: 1, label: '2 Jan', major: true }]);
+  });
+});
+
+describe('formatBarTime', () => {
+  it('leaves out the time of day on daily bars', () => {
+    expect(formatBarTime(MONDAY + 9 * HOUR + 30 * 60_000, 'UTC', HOUR)).toBe('Mon 1 Jan 2024 09:30');
+    expect(formatBarTime(MONDAY, 'UTC', DAY)).toBe('Mon 1 Jan 2024');
+    expect(formatBarTime(MONDAY, 'America/New_York', HOUR)).toBe('Sun 31 Dec 2023 19:00');
+  });
+});
+
+describe('getSessionRanges', () => {
+  it('finds the London session on a weekday and skips the weekend', () => {
+    const times = [...series(MONDAY, HOUR, 24), ...series(MONDAY + 5 * DAY, HOUR, 24)];
+    expect(getSessionRanges(times, ['london', 'unknown'])).toEqual([{ session: 'london', start: 8, end: 16 }]);
+  });
+});
@@ -0,0 +1,152 @@
+import { getZonedParts, type ZonedParts } from './time';
+
+export interface TimeTick {
+  index: number; // bar index on the category axis
+  label: string;
+  major: boolean; // a new day on intraday bars, a new month (or year) on daily ones
+}
+
+// Trading hours in the session's own zone, so daylight saving shifts them correctly
+export interface SessionSpec {
+  label: string;
+  timeZone: string;
+  open: number; // minutes after local midnight
+  close: number;
+  color: string;
+}
+
+export interface SessionRange {
+  session: string;
+  start: number; // bar indices, inclusive
+  end: number;
+}
+
+export const SESSIONS: Record<string, SessionSpec> = {
+  tokyo: { label: 'Tokyo', timeZone: 'Asia/Tokyo', open: 9 * 60, close: 15 * 60, color: '#e84393' },
+  london: { label: 'London', timeZone: 'Europe/London', open: 8 * 60, close: 16 * 60 + 30, color: '#3498db' },
+  newyork: { label: 'New York', timeZone: 'America/New_York', open: 9 * 60 + 30, close: 16 * 60, color: '#2ecc71' },
+};
+
+const DAY_MS = 86_400_000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Tick spacing, finest first: minute steps divide the day, the rest follow the calendar
+const MINUTE_STEPS = [1, 5, 15, 30, 60, 120, 180, 240, 360, 720];
+const CALENDAR_STEPS = ['day', 'week', 'month', 'quarter', 'year'] as const;
+type TickStep = number | typeof CALENDAR_STEPS[number];
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// Days since the epoch of the zoned calendar date
+function getDayNumber(p: ZonedParts): number {
+  return Math.floor(Date.UTC(p.year, p.month - 1, p.day) / DAY_MS);
+}
+
+// Bars with the same key fall in the same step; a tick goes where the key changes
+function getStepKey(p: ZonedParts, step: TickStep): number {
+  const day = getDayNumber(p);
+  switch (step) {
+    case 'day':
+      return day;
+    case 'week':
+      return day - ((p.weekday + 6) % 7); // weeks start on Monday
+    case 'month':
+      return p.year * 12 + p.month - 1;
+    case 'quarter':
+      return p.year * 4 + Math.floor((p.month - 1) / 3);
+    case 'year':
+      return p.year;
+    default:
+      return day * (1440 / step) + Math.floor((p.hour * 60 + p.minute) / step);
+  }
+}
+
+function getTick(step: TickStep, p: ZonedParts, prev: ZonedParts): { label: string; major: boolean } {
+  const newYear = p.year !== prev.year;
+  const newMonth = newYear || p.month !== prev.month;
+  if (typeof step === 'number') {
+    const newDay = getDayNumber(p) !== getDayNumber(prev);
+    return newDay
+      ? { label: `${p.day} ${MONTHS[p.month - 1]}`, major: true }
+      : { label: `${pad(p.hour)}:${pad(p.minute)}`, major: false };
+  }
+  if (step === 'day' || step === 'week') {
+    if (newYear) return { label: String(p.year), major: true };
+    return newMonth ? { label: MONTHS[p.month - 1], major: true } : { label: String(p.day), major: false };
+  }
+  return newYear ? { label: String(p.year), major: true } : { label: MONTHS[p.month - 1], major: false };
+}
+
+// Ticks where bars cross the finest round step that still fits maxTicks. Steps are whole
+// multiples of the bar interval, so every tick lands on a bar.
+export function buildTimeTicks(times: number[], timeZone: string, intervalMs: number, maxTicks: number): TimeTick[] {
+  const parts = times.map((time) => getZonedParts(time, timeZone));
+  const intervalMinutes = intervalMs / 60_000;
+  const steps: TickStep[] = [
+    ...MINUTE_STEPS.filter((m) => m >= intervalMinutes && m % intervalMinutes === 0),
+    ...CALENDAR_STEPS,
+  ];
+
+  let ticks: TimeTick[] = [];
+  for (const step of steps) {
+    ticks = [];
+    for (let i = 1; i < parts.length; i++) {
+      if (getStepKey(parts[i], step) !== getStepKey(parts[i - 1], step)) {
+        ticks.push({ index: i, ...getTick(step, parts[i], parts[i - 1]) });
+      }
+    }
+    if (ticks.length <= maxTicks) break;
+  }
+  return ticks;
+}
+
+// Full timestamp for tooltips; daily bars have no time of day
+export function formatBarTime(time: number, timeZone: string, intervalMs: number): string {
+  const p = getZonedParts(time, timeZone);
+  const date = `${WEEKDAYS[p.weekday]} ${p.day} ${MONTHS[p.month - 1]} ${p.year}`;
+  return intervalMs >= DAY_MS ? date : `${date} ${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+// Indices of bars that follow a break in trading (weekends, overnight closes). The axis
+// only has room for bars, so these are where it joins bars far apart in time.
+export function findGaps(times: number[], intervalMs: number): number[] {
+  const threshold = intervalMs >= DAY_MS ? 4 * DAY_MS : Math.max(3 * intervalMs, 60 * 60_000);
+  const gaps: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] - times[i - 1] > threshold) gaps.push(i);
+  }
+  return gaps;
+}
+
+// Runs of bars opening inside each session on weekdays, one run per session day
+export function getSessionRanges(times: number[], sessionIds: string[]): SessionRange[] {
+  const ranges: SessionRange[] = [];
+  for (const session of sessionIds) {
+    const spec = SESSIONS[session];
+    if (!spec) continue;
+
+    let start = -1;
+    let startDay = -1;
+    times.forEach((time, i) => {
+      const p = getZonedParts(time, spec.timeZone);
+      const minutes = p.hour * 60 + p.minute;
+      const open = p.weekday >= 1 && p.weekday <= 5 && minutes >= spec.open && minutes < spec.close;
+      const day = getDayNumber(p);
+      if (start !== -1 && (!open || day !== startDay)) {
+        ranges.push({ session, start, end: i - 1 });
+        start = -1;
+      }
+      if (open && start === -1) {
+        start = i;
+        startDay = day;
+      }
+    });
+    if (start !== -1) {
+      ranges.push({ session, start, end: times.length - 1 });
+    }
+  }
+  return ranges;
+}
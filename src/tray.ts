@@ -0,0 +1,98 @@
+import { app, Menu, nativeImage, Tray, type MenuItemConstructorOptions } from 'electron';
+import path from 'node:path';
+
+// What the tray menu shows for each widget window
+export interface TrayWidget {
+  id: string;
+  instrument: string;
+  visible: boolean;
+  miniMode: boolean;
+  ghostMode: boolean;
+}
+
+interface TrayOptions {
+  getWidgets: () => TrayWidget[];
+  getWatchlist: () => string[];
+  setVisible: (widgetId: string | null, visible: boolean) => void; // null: every widget
+  setMiniMode: (widgetId: string, enabled: boolean) => void;
+  setGhostMode: (widgetId: string, enabled: boolean) => void;
+  selectInstrument: (widgetId: string, instrument: string) => void;
+  openSettings: (widgetId: string) => void;
+  newWidget: () => void;
+}
+
+let tray: Tray | null = null;
+let options: TrayOptions | null = null;
+
+function getWidgetItems(widget: TrayWidget, service: TrayOptions): MenuItemConstructorOptions[] {
+  const instruments = [...new Set([widget.instrument, ...service.getWatchlist()])];
+  return [
+    {
+      label: widget.visible ? 'Hide' : 'Show',
+      click: () => service.setVisible(widget.id, !widget.visible),
+    },
+    {
+      label: 'Mini mode',
+      type: 'checkbox',
+      checked: widget.miniMode,
+      click: () => service.setMiniMode(widget.id, !widget.miniMode),
+    },
+    {
+      label: 'Ghost mode (click-through)',
+      type: 'checkbox',
+      checked: widget.ghostMode,
+      click: () => service.setGhostMode(widget.id, !widget.ghostMode),
+    },
+    {
+      label: 'Instrument',
+      submenu: instruments.map((instrument): MenuItemConstructorOptions => ({
+        label: instrument,
+        type: 'radio',
+        checked: instrument === widget.instrument,
+        click: () => service.selectInstrument(widget.id, instrument),
+      })),
+    },
+    { label: 'Settings…', click: () => service.openSettings(widget.id) },
+  ];
+}
+
+// A single widget's items sit at the top level; with several, each gets a submenu
+function buildMenu(service: TrayOptions): Menu {
+  const widgets = service.getWidgets();
+  const anyVisible = widgets.some((w) => w.visible);
+  const template: MenuItemConstructorOptions[] = widgets.length === 1
+    ? getWidgetItems(widgets[0], service)
+    : [
+      { label: anyVisible ? 'Hide all' : 'Show all', click: () => service.setVisible(null, !anyVisible) },
+      { type: 'separator' },
+      ...widgets.map((w) => ({ label: w.instrument, submenu: getWidgetItems(w, service) })),
+    ];
+
+  return Menu.buildFromTemplate([
+    ...template,
+    { type: 'separator' },
+    { label: 'New widget', click: () => service.newWidget() },
+    { label: 'Quit', click: () => app.quit() },
+  ]);
+}
+
+// Rebuilt whenever widgets change; menus are snapshots
+export function updateTrayMenu(): void {
+  if (tray && options) {
+    tray.setContextMenu(buildMenu(options));
+  }
+}
+
+export function createTray(trayOptions: TrayOptions): void {
+  options = trayOptions;
+  const iconPath = path.join(__dirname, '..', '..', 'icons', 'icons', 'png', '32x32.png');
+  tray = new Tray(nativeImage.createFromPath(iconPath).resize({ width: 16, height: 16 }));
+  tray.setToolTip(app.getName());
+
+  // Clicking the icon shows or hides everything; the menu is on right-click
+  tray.on('click', () => {
+    if (!options) return;
+    options.setVisible(null, !options.getWidgets().some((w) => w.visible));
+  });
+  updateTrayMenu();
+}
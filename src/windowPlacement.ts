@@ -0,0 +1,63 @@
+import { screen, type Display, type Rectangle } from 'electron';
+
+const SNAP_DISTANCE = 12;
+const MIN_VISIBLE = 40; // px of a window that must stay on-screen to be reachable
+
+export function getDisplayIdForBounds(bounds: Rectangle): number {
+  return screen.getDisplayMatching(bounds).id;
+}
+
+function clampIntoArea(bounds: Rectangle, area: Rectangle): Rectangle {
+  const width = Math.min(bounds.width, area.width);
+  const height = Math.min(bounds.height, area.height);
+  return {
+    x: Math.min(Math.max(bounds.x, area.x), area.x + area.width - width),
+    y: Math.min(Math.max(bounds.y, area.y), area.y + area.height - height),
+    width,
+    height,
+  };
+}
+
+function isReachable(bounds: Rectangle, display: Display): boolean {
+  const area = display.workArea;
+  const visibleX = Math.min(bounds.x + bounds.width, area.x + area.width) - Math.max(bounds.x, area.x);
+  const visibleY = Math.min(bounds.y + bounds.height, area.y + area.height) - Math.max(bounds.y, area.y);
+  return visibleX >= MIN_VISIBLE && visibleY >= MIN_VISIBLE;
+}
+
+// Keep saved geometry where it was if its monitor is still attached and it is reachable;
+// otherwise pull it fully onto the saved display, or the nearest remaining one
+export function fitBoundsToDisplays(bounds: Rectangle, displayId?: number): Rectangle {
+  const displays = screen.getAllDisplays();
+  const saved = displays.find((d) => d.id === displayId);
+
+  if (saved && isReachable(bounds, saved)) {
+    return bounds;
+  }
+  if (!saved && displays.some((d) => isReachable(bounds, d))) {
+    return bounds;
+  }
+
+  const target = saved ?? screen.getDisplayMatching(bounds);
+  return clampIntoArea(bounds, target.workArea);
+}
+
+// Pull a window flush against work-area edges (and so corners) when it comes close
+export function snapToEdges(bounds: Rectangle): Rectangle {
+  const area = screen.getDisplayMatching(bounds).workArea;
+  let { x, y } = bounds;
+
+  if (Math.abs(x - area.x) <= SNAP_DISTANCE) {
+    x = area.x;
+  } else if (Math.abs(area.x + area.width - (x + bounds.width)) <= SNAP_DISTANCE) {
+    x = area.x + area.width - bounds.width;
+  }
+
+  if (Math.abs(y - area.y) <= SNAP_DISTANCE) {
+    y = area.y;
+  } else if (Math.abs(area.y + area.height - (y + bounds.height)) <= SNAP_DISTANCE) {
+    y = area.y + area.height - bounds.height;
+  }
+
+  return { ...bounds, x, y };
+}